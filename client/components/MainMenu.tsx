@@ -18,11 +18,13 @@ import {
 import { StackProvider, StackTheme, StackHandler } from "@stackframe/react";
 import { stackClientApp } from "../stack";
 import LoginSignupPopup from "./LoginSignupPopup";
+import type { BridgitAIOrchestrator } from "../lib/api";
 
 interface MainMenuProps {
   isOpen: boolean;
   onClose: () => void;
   currentMode?: "just-me" | "talk-together";
+  orchestrator?: BridgitAIOrchestrator | null;
 }
 
 type SessionType = "none" | "host" | "join" | "end";
@@ -32,14 +34,16 @@ export default function MainMenu({
   isOpen,
   onClose,
   currentMode = "just-me",
+  orchestrator,
 }: MainMenuProps) {
   const [isSignedIn, setIsSignedIn] = useState(false);
   const [showAuthPopup, setShowAuthPopup] = useState(false);
   const [sessionType, setSessionType] = useState<SessionType>("none");
-  const [hostCode, setHostCode] = useState("ABC123");
+  const [hostCode, setHostCode] = useState("");
   const [joinCode, setJoinCode] = useState("");
   const [connectionStatus, setConnectionStatus] =
     useState<ConnectionStatus>("disconnected");
+  const [sessionError, setSessionError] = useState<string | null>(null);
   const navigate = useNavigate();
   const location = useLocation();
   const [authMode, setAuthMode] = useState<"login" | "signup">("login");
@@ -65,7 +69,7 @@ export default function MainMenu({
     setConnectionStatus("disconnected");
   };
 
-  const handleSessionTypeChange = (type: SessionType) => {
+  const handleSessionTypeChange = async (type: SessionType) => {
     // Restrict remote features to Just Me mode only
     if (
       currentMode === "talk-together" &&
@@ -75,24 +79,47 @@ export default function MainMenu({
     }
 
     setSessionType(type);
+    setSessionError(null);
     if (type === "host") {
-      setConnectionStatus("connected");
-      setHostCode(Math.random().toString(36).substring(2, 8).toUpperCase());
+      if (!orchestrator) {
+        setSessionError("Sessions are unavailable right now.");
+        return;
+      }
+      setConnectionStatus("connecting");
+      try {
+        await orchestrator.startHostSession();
+        setHostCode(orchestrator.getCurrentSession()?.joinCode || "");
+        setConnectionStatus("connected");
+      } catch (error) {
+        setConnectionStatus("disconnected");
+        setSessionError((error as Error).message);
+      }
     } else if (type === "join") {
       setConnectionStatus("disconnected");
     } else if (type === "end") {
       setConnectionStatus("disconnected");
       setJoinCode("");
+      setHostCode("");
+      await orchestrator?.endSession();
     }
   };
 
-  const handleJoinAttempt = () => {
-    if (joinCode.length === 6) {
-      setConnectionStatus("connecting");
-      // Simulate connection attempt
-      setTimeout(() => {
-        setConnectionStatus("connected");
-      }, 2000);
+  const handleJoinAttempt = async (code: string) => {
+    if (code.length !== 6) return;
+
+    if (!orchestrator) {
+      setSessionError("Sessions are unavailable right now.");
+      return;
+    }
+
+    setSessionError(null);
+    setConnectionStatus("connecting");
+    try {
+      await orchestrator.joinSessionByCode(code);
+      setConnectionStatus("connected");
+    } catch (error) {
+      setConnectionStatus("disconnected");
+      setSessionError((error as Error).message);
     }
   };
 
@@ -268,9 +295,10 @@ export default function MainMenu({
                     type="text"
                     value={joinCode}
                     onChange={(e) => {
-                      setJoinCode(e.target.value.toUpperCase());
-                      if (e.target.value.length === 6) {
-                        handleJoinAttempt();
+                      const code = e.target.value.toUpperCase();
+                      setJoinCode(code);
+                      if (code.length === 6) {
+                        handleJoinAttempt(code);
                       }
                     }}
                     placeholder="Enter 6-digit code"
@@ -291,6 +319,12 @@ export default function MainMenu({
                 </div>
               )}
 
+              {sessionError && (
+                <div className="mb-6 text-xs text-neon-red bg-neon-red/10 border border-neon-red/20 rounded-lg p-2">
+                  {sessionError}
+                </div>
+              )}
+
               {/* Sign Out Button */}
               <div className="mb-6">
                 <button
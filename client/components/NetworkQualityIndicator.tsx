@@ -0,0 +1,44 @@
+import { Signal, SignalHigh, SignalLow, SignalMedium } from "lucide-react";
+import type {
+  ConnectionQuality,
+  QualityLevel,
+} from "../lib/services/connection-quality";
+
+interface NetworkQualityIndicatorProps {
+  quality: ConnectionQuality | null;
+}
+
+const levelConfig: Record<
+  QualityLevel,
+  { label: string; icon: typeof Signal; color: string }
+> = {
+  excellent: { label: "Excellent", icon: Signal, color: "text-neon-green" },
+  good: { label: "Good", icon: SignalHigh, color: "text-neon-cyan" },
+  fair: { label: "Fair", icon: SignalMedium, color: "text-neon-purple" },
+  poor: { label: "Poor", icon: SignalLow, color: "text-neon-red" },
+};
+
+// Worst peer link in the session; hidden until there is one to report
+export default function NetworkQualityIndicator({
+  quality,
+}: NetworkQualityIndicatorProps) {
+  if (!quality) return null;
+
+  const config = levelConfig[quality.level];
+  const Icon = config.icon;
+
+  return (
+    <div
+      className="flex items-center gap-1 mb-4"
+      title={`${config.label} connection: ${Math.round(quality.rtt)} ms RTT, ${Math.round(quality.jitter)} ms jitter, ${(quality.packetLoss * 100).toFixed(1)}% loss`}
+    >
+      <Icon className={`w-4 h-4 ${config.color}`} />
+      <span
+        className="text-xs font-medium"
+        style={{ color: "rgba(0, 0, 0, 1)" }}
+      >
+        {quality.mos.toFixed(1)}
+      </span>
+    </div>
+  );
+}
@@ -3,9 +3,11 @@ import { ArrowLeftRight } from "lucide-react";
 import LanguageSelector, { Language, languages } from "./LanguageSelector";
 import MicButton from "./MicButton";
 import StateLabel from "./StateLabel";
+import NetworkQualityIndicator from "./NetworkQualityIndicator";
 import SendRedoControls from "./SendRedoControls";
 import SpeechToTextService from "../lib/services/stt";
 import DeepLService from "../lib/services/deepl";
+import type { ConnectionQuality } from "../lib/services/connection-quality";
 
 interface TranslatorCardProps {
   cardId?: string;
@@ -20,6 +22,7 @@ interface TranslatorCardProps {
     translatedText: string;
   } | null;
   showSendControls?: boolean;
+  networkQuality?: ConnectionQuality | null;
 }
 
 export default function TranslatorCard({
@@ -32,6 +35,7 @@ export default function TranslatorCard({
   onRedoRecording,
   pendingTranslation,
   showSendControls = false,
+  networkQuality = null,
 }: TranslatorCardProps) {
   // Replace mock username with real auth context (placeholder for now)
   const username = ""; // TODO: Integrate with real auth context
@@ -89,7 +93,24 @@ export default function TranslatorCard({
           setCurrentState("error");
           setOutputText("Transcription failed");
         },
-        { language: sourceLanguage.code }
+        { language: sourceLanguage.code },
+        {
+          // Live captions until the final result replaces them
+          onInterim: (interim) => {
+            setInputText(interim.text);
+            if (interim.translatedText) {
+              setOutputText(`${interim.translatedText}…`);
+            }
+          },
+          translate: async (text) =>
+            (
+              await DeepLService.translateText(
+                text,
+                targetLanguage.code,
+                sourceLanguage.code
+              )
+            ).text,
+        }
       );
     }
   };
@@ -116,8 +137,9 @@ export default function TranslatorCard({
         </div>
 
         {/* Status moved inside card, under username */}
-        <div className="mt-3">
+        <div className="mt-3 flex items-center justify-center gap-3">
           <StateLabel state={currentState} />
+          <NetworkQualityIndicator quality={networkQuality} />
         </div>
       </div>
 
@@ -0,0 +1,50 @@
+import * as React from "react";
+import type { BridgitAIOrchestrator } from "@/lib/api";
+import { stackClientApp } from "@/stack";
+
+// Creates the orchestrator for the signed-in user; null until it is ready
+export function useOrchestrator(mode: "just-me" | "talk-together" = "just-me") {
+  const [orchestrator, setOrchestrator] =
+    React.useState<BridgitAIOrchestrator | null>(null);
+  // Read when the orchestrator is created; later changes go through setMode
+  const initialMode = React.useRef(mode);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    let instance: BridgitAIOrchestrator | null = null;
+
+    const setup = async () => {
+      try {
+        const user = await stackClientApp.getUser();
+        if (!user || cancelled) return;
+
+        // Loaded lazily so realtime services only start for signed-in users
+        const { createBridgitAI } = await import("@/lib/api");
+        const created = createBridgitAI({
+          userId: user.id,
+          username: user.displayName || user.primaryEmail || "Guest",
+          mode: initialMode.current,
+        });
+        instance = created;
+        await created.initialize();
+
+        if (!cancelled) setOrchestrator(created);
+      } catch (error) {
+        console.warn("Bridgit-AI orchestrator unavailable:", error);
+      }
+    };
+
+    setup();
+
+    return () => {
+      cancelled = true;
+      instance?.destroy();
+    };
+  }, []);
+
+  React.useEffect(() => {
+    orchestrator?.setMode(mode);
+  }, [orchestrator, mode]);
+
+  return orchestrator;
+}
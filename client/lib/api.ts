@@ -1,4 +1,23 @@
 // Production-ready API exports for Bridgit-AI
+import { translationFailover } from "./services/providers";
+import type { ProviderSelection } from "./services/providers";
+import type { TranslationMode } from "./services/ably";
+import LatencyService, { LatencyTrace } from "./services/latency";
+import type { LatencyStage } from "./services/latency";
+
+export { createRealtimeTransport } from "./services/realtime";
+export { AblyTransport } from "./services/realtime-ably";
+export { WebSocketTransport } from "./services/realtime-websocket";
+export type {
+  RealtimeTransport,
+  RealtimeTransportKind,
+  RealtimeChannel,
+  RealtimePresence,
+  RealtimeMessage,
+  PresenceMember,
+} from "./services/realtime";
+import type { CircuitHealth } from "./services/circuit-breaker";
+
 export { default as BridgitAIOrchestrator } from "./services/orchestrator";
 export type {
   OrchestratorConfig,
@@ -7,18 +26,34 @@ export type {
 } from "./services/orchestrator";
 
 export { default as TranslationFSM } from "./services/fsm";
-export type { FSMState, FSMEvent, FSMContext } from "./services/fsm";
+export type {
+  FSMState,
+  FSMEvent,
+  FSMContext,
+  UtteranceStage,
+  UtteranceState,
+} from "./services/fsm";
 
 export { default as AblyService } from "./services/ably";
 export type {
   SessionParticipant,
   TranslationMessage,
+  TranslationMode,
   SessionState,
   WebRTCSignal,
 } from "./services/ably";
 
 export { default as WebRTCService } from "./services/webrtc";
 export type { AudioStreamConfig, PeerConnectionEvent } from "./services/webrtc";
+export {
+  estimateMos,
+  qualityLevel,
+  worstQuality,
+} from "./services/connection-quality";
+export type {
+  ConnectionQuality,
+  QualityLevel,
+} from "./services/connection-quality";
 
 export { default as AudioRecorderService } from "./services/recorder";
 export type {
@@ -26,10 +61,75 @@ export type {
   AudioChunk,
   RecorderState,
 } from "./services/recorder";
+export {
+  StreamingTranscriber,
+  agreedPrefixLength,
+} from "./services/streaming-transcription";
+export type {
+  InterimTranscript,
+  StreamingTranscriptionConfig,
+} from "./services/streaming-transcription";
+
+export { LatencyService, LatencyTrace };
+export type {
+  LatencyBreakdownResponse,
+  LatencyPercentiles,
+  LatencyStage,
+  StageTiming,
+} from "./services/latency";
 
 export { default as DeepLService } from "./services/deepl";
+export type {
+  CreateGlossaryRequest,
+  GlossaryEntry,
+  GlossaryLanguagePair,
+  UserGlossaryRecord,
+} from "./services/deepl";
 export { default as OpenRouterService } from "./services/openrouter";
 
+export { default as ProviderRegistryService } from "./services/providers";
+export {
+  ProviderRegistry,
+  FailoverTranslationProvider,
+  EnhancedTranslationProvider,
+  TranslationCache,
+} from "./services/providers";
+export {
+  CircuitBreaker,
+  CircuitOpenError,
+  TimeoutError,
+} from "./services/circuit-breaker";
+export type {
+  CircuitState,
+  CircuitHealth,
+  CircuitBreakerConfig,
+} from "./services/circuit-breaker";
+export type {
+  TranslationProvider,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+  TranslationResult,
+  TranslationOptions,
+  TTSOptions,
+  ProviderKind,
+  ProviderSelection,
+} from "./services/providers";
+
+export { default as TranslationMemoryService } from "./services/translation-memory";
+export type {
+  TranslationMemoryMatch,
+  TranslationMemoryMetrics,
+} from "./services/translation-memory";
+
+export { default as ElevenLabsService } from "./services/elevenlabs";
+export { StreamingAudioPlayer } from "./services/player";
+export type {
+  PlaybackFormat,
+  PlaybackEvent,
+  PlaybackProgress,
+  PlayerConfig,
+} from "./services/player";
+
 export { default as NeonService } from "./services/neon";
 export type {
   SessionRecord,
@@ -79,12 +179,18 @@ export function createBridgitAI(config: {
   username: string;
   sourceLanguage?: string;
   targetLanguage?: string;
+  providers?: ProviderSelection;
+  translationMode?: TranslationMode;
+  mode?: "just-me" | "talk-together";
 }): BridgitAIOrchestrator {
   return new BridgitAIOrchestrator({
     userId: config.userId,
     username: config.username,
     defaultSourceLanguage: config.sourceLanguage || "en",
     defaultTargetLanguage: config.targetLanguage || "es",
+    providers: config.providers,
+    translationMode: config.translationMode,
+    mode: config.mode,
   });
 }
 
@@ -94,12 +200,7 @@ export function validateEnvironment(): {
   missing: string[];
   warnings: string[];
 } {
-  const required = [
-    "VITE_ABLY_API_KEY",
-    "VITE_DEEPL_API_KEY",
-    "VITE_OPENROUTER_API_KEY",
-    "VITE_NEON_DATABASE_URL",
-  ];
+  const required = ["VITE_DEEPL_API_KEY", "VITE_OPENROUTER_API_KEY"];
 
   const optional = ["VITE_SENTRY_DSN", "VITE_ANALYTICS_ID"];
 
@@ -118,6 +219,7 @@ export async function checkServiceHealth(): Promise<{
   overall: "healthy" | "degraded" | "unhealthy";
   services: Record<string, boolean>;
   details: Record<string, string>;
+  circuits: Record<string, CircuitHealth>;
 }> {
   const results: Record<string, boolean> = {};
   const details: Record<string, string> = {};
@@ -151,6 +253,20 @@ export async function checkServiceHealth(): Promise<{
     details.openrouter = `Error: ${error.message}`;
   }
 
+  // Translation failover: usable while any provider's circuit admits calls
+  const circuits = translationFailover.getHealth();
+  const circuitStates = Object.entries(circuits);
+  results.translation = circuitStates.some(
+    ([, health]) => health.state !== "open",
+  );
+  details.translation = circuitStates
+    .map(([provider, health]) =>
+      health.state === "closed"
+        ? `${provider}: closed`
+        : `${provider}: ${health.state} (${health.lastError || "no error"})`,
+    )
+    .join(", ");
+
   // Test Neon Database
   try {
     await NeonService.getActiveSessionCount();
@@ -185,7 +301,15 @@ export async function checkServiceHealth(): Promise<{
     overall = "unhealthy";
   }
 
-  return { overall, services: results, details };
+  // Running on a fallback provider is degraded even if every check passed
+  if (
+    overall === "healthy" &&
+    circuitStates.some(([, health]) => health.state !== "closed")
+  ) {
+    overall = "degraded";
+  }
+
+  return { overall, services: results, details, circuits };
 }
 
 // Error reporting for production monitoring
@@ -214,25 +338,16 @@ export function reportError(error: Error, context?: Record<string, any>): void {
   }
 }
 
-// Performance monitoring
+// Performance monitoring for a one-off stage timing; the FSM reports
+// whole utterances itself through LatencyTrace
 export function trackPerformance(
-  operation: string,
+  stage: LatencyStage,
   duration: number,
-  metadata?: Record<string, any>,
+  metadata?: { provider?: string; correlationId?: string },
 ): void {
-  if (import.meta.env.PROD) {
-    // Send to analytics service
-    fetch("/api/analytics/performance", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        operation,
-        duration,
-        metadata,
-        timestamp: new Date().toISOString(),
-      }),
-    }).catch(console.error);
-  }
+  const trace = new LatencyTrace(metadata?.correlationId);
+  trace.record(stage, duration, metadata?.provider);
+  LatencyService.report(trace);
 
-  console.log(`Performance: ${operation} took ${duration}ms`, metadata);
+  console.log(`Performance: ${stage} took ${duration}ms`, metadata);
 }
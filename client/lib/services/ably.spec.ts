@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import { AblyService, type SessionState } from "./ably";
+import type {
+  PresenceMember,
+  RealtimeChannel,
+  RealtimeMessage,
+  RealtimeTransport,
+} from "./realtime";
+
+// The real transports authenticate through Stack, which tests don't configure
+vi.mock("./auth", () => ({ getAuthHeaders: async () => ({}) }));
+
+// In-memory channels that let a test speak for any other member
+class FakeTransport implements RealtimeTransport {
+  readonly name = "fake";
+  private channels = new Map<string, ReturnType<typeof fakeChannel>>();
+
+  constructor(private clientId: string) {}
+
+  async connect(): Promise<void> {}
+
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  channel(name: string) {
+    if (!this.channels.has(name)) {
+      this.channels.set(name, fakeChannel(name, this.clientId));
+    }
+    return this.channels.get(name)!;
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  close(): void {}
+}
+
+function fakeChannel(name: string, self: string) {
+  const members = new Map<string, PresenceMember>();
+  const onPresence = new Set<(member: PresenceMember) => void>();
+  const onMessage = new Set<(message: RealtimeMessage) => void>();
+
+  const present = (member: PresenceMember) => {
+    if (member.action === "leave") members.delete(member.clientId);
+    else members.set(member.clientId, member);
+    onPresence.forEach((callback) => callback(member));
+  };
+  const deliver = (message: RealtimeMessage) =>
+    onMessage.forEach((callback) => callback(message));
+
+  const channel: RealtimeChannel = {
+    name,
+    publish: async (event: string, data: unknown) =>
+      deliver({ name: event, data, clientId: self }),
+    subscribe: (
+      event: string,
+      callback: (message: RealtimeMessage) => void,
+    ) => {
+      const filtered = (message: RealtimeMessage) => {
+        if (message.name === event) callback(message);
+      };
+      onMessage.add(filtered);
+      return () => onMessage.delete(filtered);
+    },
+    history: async () => [],
+    presence: {
+      enter: async (data: unknown) =>
+        present({ clientId: self, action: "enter", data }),
+      update: async (data: unknown) =>
+        present({ clientId: self, action: "update", data }),
+      leave: async () => present({ clientId: self, action: "leave", data: {} }),
+      get: async () => Array.from(members.values()),
+      subscribe: (callback: (member: PresenceMember) => void) => {
+        onPresence.add(callback);
+        return () => onPresence.delete(callback);
+      },
+    },
+    onResync: () => () => {},
+    detach: async () => {},
+  };
+  return { ...channel, present, deliver };
+}
+
+const presence = (clientId: string, data: object): PresenceMember => ({
+  clientId,
+  action: "enter",
+  data: {
+    id: clientId,
+    username: clientId,
+    isHost: false,
+    joinedAt: 0,
+    status: "connected",
+    listeningLanguage: "en",
+    ...data,
+  },
+});
+
+// Bob joins Alice's session, as the registry has it
+async function joinAsBob() {
+  const transport = new FakeTransport("bob");
+  const ably = new AblyService(transport);
+  await ably.joinSession("session_1", "Bob", "es", "alice");
+  const channel = transport.channel("session:session_1");
+  const updates: SessionState[] = [];
+  ably.onSessionUpdate((state) => updates.push(state));
+  return { ably, channel, updates };
+}
+
+describe("AblyService", () => {
+  it("keys the roster by clientId, whatever id a member claims", async () => {
+    const { ably, channel } = await joinAsBob();
+
+    channel.present(presence("mallory", { id: "alice", username: "Alice" }));
+
+    expect(
+      ably.getParticipants().map((p) => [p.id, p.username, p.isHost]),
+    ).toEqual([
+      ["bob", "Bob", false],
+      ["mallory", "Alice", false],
+    ]);
+  });
+
+  it("takes the host and its settings only from the registry's host", async () => {
+    const { ably, channel, updates } = await joinAsBob();
+
+    channel.present(
+      presence("mallory", { isHost: true, translationMode: "receiver" }),
+    );
+    expect(ably.getParticipants().find((p) => p.id === "mallory")?.isHost).toBe(
+      false,
+    );
+    expect(ably.getTranslationMode()).toBe("sender");
+
+    channel.present(
+      presence("alice", { isHost: false, translationMode: "receiver" }),
+    );
+    expect(updates.at(-1)).toMatchObject({
+      hostId: "alice",
+      translationMode: "receiver",
+    });
+    expect(ably.getParticipants().find((p) => p.id === "alice")?.isHost).toBe(
+      true,
+    );
+  });
+
+  it("ignores session:created from anyone but the host", async () => {
+    const { ably, channel } = await joinAsBob();
+    const created = (clientId: string, translationMode: string) =>
+      channel.deliver({
+        name: "session:created",
+        clientId,
+        data: { hostId: clientId, translationMode },
+      });
+
+    created("mallory", "receiver");
+    expect(ably.getTranslationMode()).toBe("sender");
+
+    created("alice", "receiver");
+    expect(ably.getTranslationMode()).toBe("receiver");
+  });
+
+  it("trusts no one as host when joining without the registry's word", async () => {
+    const transport = new FakeTransport("bob");
+    const ably = new AblyService(transport);
+    await ably.joinSession("session_1", "Bob");
+    ably.onSessionUpdate(() => {});
+
+    transport
+      .channel("session:session_1")
+      .present(
+        presence("alice", { isHost: true, translationMode: "receiver" }),
+      );
+
+    expect(ably.getParticipants().some((p) => p.isHost)).toBe(false);
+    expect(ably.getTranslationMode()).toBe("sender");
+  });
+});
@@ -1,4 +1,8 @@
-import Ably from "ably";
+import {
+  createRealtimeTransport,
+  PresenceMember,
+  RealtimeTransport,
+} from "./realtime";
 
 export interface SessionParticipant {
   id: string;
@@ -6,18 +10,33 @@ export interface SessionParticipant {
   isHost: boolean;
   joinedAt: number;
   status: "connected" | "disconnected" | "speaking" | "listening";
+  // Language this participant wants to hear translations in
+  listeningLanguage: string;
 }
 
+// "sender": the speaker translates and voices for everyone.
+// "receiver": only the transcript is sent; each listener translates.
+export type TranslationMode = "sender" | "receiver";
+
 export interface TranslationMessage {
   id: string;
   sessionId: string;
   senderId: string;
   originalText: string;
-  translatedText: string;
+  // Absent when receivers translate for themselves
+  translatedText?: string;
   sourceLanguage: string;
-  targetLanguage: string;
+  targetLanguage?: string;
   timestamp: number;
   audioUrl?: string;
+  // One translation per listening language in the session, keyed by
+  // language code. translatedText/targetLanguage hold the sender's own.
+  translations?: Record<string, string>;
+  // Set when the sender is speaking translatedText to its peers over
+  // WebRTC on this stream, so they don't synthesize it again
+  voiceStreamId?: string;
+  // Talk Together: playback was cut off by someone talking over it
+  partiallyHeard?: boolean;
 }
 
 export interface SessionState {
@@ -25,10 +44,16 @@ export interface SessionState {
   hostId: string;
   participants: SessionParticipant[];
   isActive: boolean;
+  translationMode: TranslationMode;
   createdAt: number;
   lastActivity: number;
 }
 
+// What goes into presence; only the host's carries session settings
+interface HostPresence extends SessionParticipant {
+  translationMode?: TranslationMode;
+}
+
 export interface WebRTCSignal {
   type: "offer" | "answer" | "ice-candidate";
   senderId: string;
@@ -36,60 +61,69 @@ export interface WebRTCSignal {
   data: any;
 }
 
+// Session, translation and signaling channels. Named for the original
+// backend; the transport underneath may be Ably or our own WebSocket server.
 export class AblyService {
-  private client: Ably.Realtime;
+  private transport: RealtimeTransport;
   private currentSessionId?: string;
   private currentUserId?: string;
+  private hostId?: string;
+  private participants: Map<string, SessionParticipant> = new Map();
+  private translationMode: TranslationMode = "sender";
 
-  constructor() {
-    const apiKey = import.meta.env.VITE_ABLY_API_KEY;
-    if (!apiKey) {
-      throw new Error("Ably API key not configured");
-    }
-
-    this.client = new Ably.Realtime({
-      key: apiKey,
-      clientId: this.generateClientId(),
-    });
+  constructor(transport: RealtimeTransport = createRealtimeTransport()) {
+    this.transport = transport;
+  }
 
-    this.currentUserId = this.client.options.clientId || undefined;
+  async connect(sessionId?: string): Promise<void> {
+    await this.transport.connect(sessionId);
+    this.currentUserId = this.transport.getClientId();
   }
 
-  private generateClientId(): string {
-    return `user_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  private channel(prefix: string, sessionId = this.currentSessionId) {
+    return this.transport.channel(`${prefix}:${sessionId}`);
   }
 
-  async createSession(): Promise<string> {
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  async createSession(
+    sessionId: string = `session_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    username: string = "@Host",
+    listeningLanguage: string = "en",
+    translationMode: TranslationMode = "sender",
+  ): Promise<string> {
+    await this.connect(sessionId);
     this.currentSessionId = sessionId;
+    this.hostId = this.currentUserId;
+    this.translationMode = translationMode;
 
-    const sessionChannel = this.client.channels.get(`session:${sessionId}`);
-
-    // Initialize session state
-    const initialState: SessionState = {
-      id: sessionId,
-      hostId: this.currentUserId!,
-      participants: [
-        {
-          id: this.currentUserId!,
-          username: "@Host", // This should come from user context
-          isHost: true,
-          joinedAt: Date.now(),
-          status: "connected",
-        },
-      ],
-      isActive: true,
-      createdAt: Date.now(),
-      lastActivity: Date.now(),
+    const sessionChannel = this.channel("session");
+
+    const host: SessionParticipant = {
+      id: this.currentUserId!,
+      username,
+      isHost: true,
+      joinedAt: Date.now(),
+      status: "connected",
+      listeningLanguage,
     };
+    this.participants = new Map([[host.id, host]]);
 
-    await sessionChannel.publish("session:created", initialState);
+    await sessionChannel.presence.enter(this.presenceData(host));
+    await sessionChannel.publish("session:created", this.getSessionState());
     return sessionId;
   }
 
-  async joinSession(sessionId: string, username: string): Promise<void> {
+  // hostId comes from the session registry. Presence data is whatever
+  // each member wrote, so without it nobody is taken for the host.
+  async joinSession(
+    sessionId: string,
+    username: string,
+    listeningLanguage: string = "en",
+    hostId?: string,
+  ): Promise<void> {
+    await this.connect(sessionId);
     this.currentSessionId = sessionId;
-    const sessionChannel = this.client.channels.get(`session:${sessionId}`);
+    this.hostId = hostId;
+    const sessionChannel = this.channel("session");
 
     const participant: SessionParticipant = {
       id: this.currentUserId!,
@@ -97,66 +131,152 @@ export class AblyService {
       isHost: false,
       joinedAt: Date.now(),
       status: "connected",
+      listeningLanguage,
     };
+    this.participants = new Map([[participant.id, participant]]);
+    // Until the host tells us otherwise
+    this.translationMode = "sender";
+
+    await sessionChannel.presence.enter(participant);
+  }
+
+  async setTranslationMode(mode: TranslationMode): Promise<void> {
+    if (!this.currentSessionId) {
+      throw new Error("No active session");
+    }
+    if (!this.isHost()) {
+      throw new Error("Only the host can change the translation mode");
+    }
 
-    await sessionChannel.publish("participant:joined", participant);
+    this.translationMode = mode;
+    await this.updateSelf({});
+  }
+
+  // Tell the session which language to translate into for us
+  async setListeningLanguage(language: string): Promise<void> {
+    await this.updateSelf({ listeningLanguage: language });
+  }
+
+  private async updateSelf(
+    changes: Partial<SessionParticipant>,
+  ): Promise<void> {
+    const self =
+      this.currentUserId && this.participants.get(this.currentUserId);
+    if (!this.currentSessionId || !self) return;
+
+    const updated = { ...self, ...changes };
+    this.participants.set(updated.id, updated);
+
+    const sessionChannel = this.channel("session");
+    await sessionChannel.presence.update(this.presenceData(updated));
+  }
+
+  // Session settings ride along in the host's presence data, so anyone
+  // who reads presence (including late joiners) sees the current ones
+  private presenceData(participant: SessionParticipant): HostPresence {
+    return participant.isHost
+      ? { ...participant, translationMode: this.translationMode }
+      : participant;
   }
 
   async leaveSession(): Promise<void> {
     if (!this.currentSessionId || !this.currentUserId) return;
 
-    const sessionChannel = this.client.channels.get(
-      `session:${this.currentSessionId}`,
-    );
-    await sessionChannel.publish("participant:left", {
-      participantId: this.currentUserId,
-      timestamp: Date.now(),
-    });
+    const sessionChannel = this.channel("session");
+    await sessionChannel.presence.leave();
 
     await sessionChannel.detach();
     this.currentSessionId = undefined;
+    this.hostId = undefined;
+    this.participants.clear();
+    this.translationMode = "sender";
   }
 
+  // Participants are tracked with presence. A member whose connection
+  // drops without leaving is removed by the transport (Ably after ~15s,
+  // our WebSocket server on its next heartbeat), which arrives here as an
+  // ordinary leave event.
   onSessionUpdate(callback: (state: SessionState) => void): () => void {
     if (!this.currentSessionId) return () => {};
 
-    const sessionChannel = this.client.channels.get(
-      `session:${this.currentSessionId}`,
-    );
-
-    const unsubscribeFunctions: Array<() => void> = [];
-
-    // Subscribe to session events
-    sessionChannel.subscribe("session:created", (message) => {
-      callback(message.data as SessionState);
-    });
+    const sessionChannel = this.channel("session");
 
-    sessionChannel.subscribe("participant:joined", (message) => {
-      // Handle participant joined - you'd update the session state
-    });
+    const onPresence = (member: PresenceMember) => {
+      if (member.action === "leave") {
+        this.participants.delete(member.clientId);
+      } else {
+        this.addParticipant(member);
+      }
+      callback(this.getSessionState());
+    };
 
-    sessionChannel.subscribe("participant:left", (message) => {
-      // Handle participant left
-    });
+    // Replace the roster with whoever the transport says is present.
+    // Needed after our own connection was lost long enough to miss
+    // presence events.
+    const reconcile = async () => {
+      try {
+        const members = await sessionChannel.presence.get();
+        const self =
+          this.currentUserId && this.participants.get(this.currentUserId);
+
+        this.participants = new Map();
+        members.forEach((member) => this.addParticipant(member));
+        // Our own re-entry may not have synced yet
+        if (self && !this.participants.has(self.id)) {
+          this.participants.set(self.id, self);
+        }
+        callback(this.getSessionState());
+      } catch (error) {
+        console.error("Failed to reconcile session participants:", error);
+      }
+    };
 
-    sessionChannel.subscribe("session:ended", (message) => {
-      // Handle session ended
-    });
+    const unsubscribeFunctions = [
+      sessionChannel.presence.subscribe(onPresence),
+      sessionChannel.onResync(reconcile),
+      sessionChannel.subscribe("session:created", (message) => {
+        // Anyone on the channel can publish; only the host's counts
+        if (!this.hostId || message.clientId !== this.hostId) return;
+        const state = message.data as SessionState;
+        this.translationMode = state.translationMode;
+        callback(this.getSessionState());
+      }),
+      sessionChannel.subscribe("session:ended", () => {
+        callback({ ...this.getSessionState(), isActive: false });
+      }),
+    ];
+    reconcile();
 
     return () => {
       unsubscribeFunctions.forEach((fn) => fn());
-      sessionChannel.unsubscribe();
     };
   }
 
+  // Keyed by the transport's clientId, which a member can't choose, and
+  // host only if that's who the registry says hosts
+  private addParticipant(member: PresenceMember): void {
+    const { translationMode, ...data } = member.data as HostPresence;
+    const isHost = !!this.hostId && member.clientId === this.hostId;
+    if (isHost && translationMode) {
+      this.translationMode = translationMode;
+    }
+    this.participants.set(member.clientId, {
+      ...data,
+      id: member.clientId,
+      isHost,
+    });
+  }
+
+  private isHost(): boolean {
+    return !!this.currentUserId && this.hostId === this.currentUserId;
+  }
+
   async sendTranslation(translation: TranslationMessage): Promise<void> {
     if (!this.currentSessionId) {
       throw new Error("No active session");
     }
 
-    const translationChannel = this.client.channels.get(
-      `translations:${this.currentSessionId}`,
-    );
+    const translationChannel = this.channel("translations");
     await translationChannel.publish("translation:sent", translation);
   }
 
@@ -165,17 +285,11 @@ export class AblyService {
   ): () => void {
     if (!this.currentSessionId) return () => {};
 
-    const translationChannel = this.client.channels.get(
-      `translations:${this.currentSessionId}`,
-    );
+    const translationChannel = this.channel("translations");
 
-    translationChannel.subscribe("translation:sent", (message) => {
+    return translationChannel.subscribe("translation:sent", (message) => {
       callback(message.data as TranslationMessage);
     });
-
-    return () => {
-      translationChannel.unsubscribe("translation:sent");
-    };
   }
 
   // WebRTC signaling through Ably
@@ -184,54 +298,49 @@ export class AblyService {
       throw new Error("No active session");
     }
 
-    const signalingChannel = this.client.channels.get(
-      `webrtc:${this.currentSessionId}`,
-    );
+    const signalingChannel = this.channel("webrtc");
     await signalingChannel.publish("webrtc:signal", signal);
   }
 
   onWebRTCSignal(callback: (signal: WebRTCSignal) => void): () => void {
     if (!this.currentSessionId) return () => {};
 
-    const signalingChannel = this.client.channels.get(
-      `webrtc:${this.currentSessionId}`,
-    );
+    const signalingChannel = this.channel("webrtc");
 
-    signalingChannel.subscribe("webrtc:signal", (message) => {
+    return signalingChannel.subscribe("webrtc:signal", (message) => {
       const signal = message.data as WebRTCSignal;
+      // The payload's senderId is whatever the publisher wrote; clientId
+      // is pinned by the transport, so a member can't pose as another peer
+      if (signal.senderId !== message.clientId) return;
       // Only process signals intended for this user
       if (signal.targetId === this.currentUserId) {
         callback(signal);
       }
     });
-
-    return () => {
-      signalingChannel.unsubscribe("webrtc:signal");
-    };
   }
 
   async updateParticipantStatus(
     status: SessionParticipant["status"],
   ): Promise<void> {
-    if (!this.currentSessionId || !this.currentUserId) return;
-
-    const sessionChannel = this.client.channels.get(
-      `session:${this.currentSessionId}`,
-    );
+    await this.updateSelf({ status });
+  }
 
-    await sessionChannel.publish("participant:status", {
-      participantId: this.currentUserId,
-      status,
-      timestamp: Date.now(),
-    });
+  // A peer's status heard directly (e.g. over WebRTC) ahead of its
+  // presence update, which will carry the same value
+  setParticipantStatus(
+    participantId: string,
+    status: SessionParticipant["status"],
+  ): void {
+    const participant = this.participants.get(participantId);
+    if (participant) {
+      this.participants.set(participantId, { ...participant, status });
+    }
   }
 
   async endSession(): Promise<void> {
     if (!this.currentSessionId) return;
 
-    const sessionChannel = this.client.channels.get(
-      `session:${this.currentSessionId}`,
-    );
+    const sessionChannel = this.channel("session");
 
     await sessionChannel.publish("session:ended", {
       endedBy: this.currentUserId,
@@ -243,22 +352,47 @@ export class AblyService {
 
   async getSessionHistory(sessionId: string): Promise<TranslationMessage[]> {
     try {
-      const translationChannel = this.client.channels.get(
-        `translations:${sessionId}`,
-      );
-
-      const history = await translationChannel.history({ limit: 100 });
-      return history.items
-        .map((item) => item.data as TranslationMessage)
-        .reverse(); // Most recent first
+      const translationChannel = this.channel("translations", sessionId);
+
+      const history = await translationChannel.history(100);
+      return history.map((item) => item.data as TranslationMessage).reverse(); // Most recent first
     } catch (error) {
       console.error("Failed to get session history:", error);
       return [];
     }
   }
 
+  getParticipants(): SessionParticipant[] {
+    return Array.from(this.participants.values());
+  }
+
+  // Distinct languages someone in the session is listening in
+  getListeningLanguages(): string[] {
+    return Array.from(
+      new Set(this.getParticipants().map((p) => p.listeningLanguage)),
+    );
+  }
+
+  getTranslationMode(): TranslationMode {
+    return this.translationMode;
+  }
+
+  private getSessionState(): SessionState {
+    const participants = this.getParticipants();
+    const now = Date.now();
+    return {
+      id: this.currentSessionId!,
+      hostId: this.hostId || "",
+      participants,
+      isActive: true,
+      translationMode: this.translationMode,
+      createdAt: Math.min(now, ...participants.map((p) => p.joinedAt)),
+      lastActivity: now,
+    };
+  }
+
   isConnected(): boolean {
-    return this.client.connection.state === "connected";
+    return this.transport.isConnected();
   }
 
   getCurrentSessionId(): string | undefined {
@@ -273,7 +407,7 @@ export class AblyService {
     if (this.currentSessionId) {
       await this.leaveSession();
     }
-    this.client.close();
+    this.transport.close();
   }
 }
 
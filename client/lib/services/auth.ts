@@ -0,0 +1,15 @@
+import { stackClientApp } from "../../stack";
+
+// Bearer header for /api routes protected by the server's JWT middleware
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  try {
+    const user = await stackClientApp.getUser();
+    if (!user) return {};
+
+    const { accessToken } = await user.getAuthJson();
+    return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+  } catch (error) {
+    console.warn("Failed to resolve auth token:", error);
+    return {};
+  }
+}
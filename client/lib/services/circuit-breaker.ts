@@ -0,0 +1,185 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // consecutive failures before opening
+  cooldownMs: number; // how long to stay open before a trial call
+  timeoutMs: number; // per-call deadline
+}
+
+export interface CircuitHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  retryAt?: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    public circuit: string,
+    public retryAt: number,
+  ) {
+    super(`Circuit for ${circuit} is open`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`${name} timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  name: string,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError(name, timeoutMs)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Stops calling a failing dependency for a while so every request doesn't
+ * pay its timeout. After the cooldown a single trial call decides whether
+ * to close again or stay open.
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig = {
+    failureThreshold: 3,
+    cooldownMs: 30000,
+    timeoutMs: 8000,
+  };
+
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private totalCalls = 0;
+  private totalFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastError?: string;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+
+  constructor(
+    public readonly name: string,
+    config?: Partial<CircuitBreakerConfig>,
+  ) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.state === "open") {
+      if (Date.now() - this.openedAt < this.config.cooldownMs) {
+        throw new CircuitOpenError(
+          this.name,
+          this.openedAt + this.config.cooldownMs,
+        );
+      }
+      this.state = "half-open";
+    }
+
+    // Only one trial call while half-open
+    const isTrial = this.state === "half-open";
+    if (isTrial) {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.name, Date.now());
+      }
+      this.trialInFlight = true;
+    }
+
+    this.totalCalls++;
+    try {
+      const result = await withTimeout(
+        operation(),
+        this.config.timeoutMs,
+        this.name,
+      );
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure(error);
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  // Best-effort calls whose failures shouldn't decide the circuit: same
+  // deadline, nothing recorded, and refused unless the circuit is closed
+  async executeUntracked<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.getState() !== "closed") {
+      throw new CircuitOpenError(
+        this.name,
+        this.openedAt + this.config.cooldownMs,
+      );
+    }
+    return withTimeout(operation(), this.config.timeoutMs, this.name);
+  }
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.config.cooldownMs
+    ) {
+      return "half-open";
+    }
+    return this.state;
+  }
+
+  getHealth(): CircuitHealth {
+    const state = this.getState();
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt,
+      lastSuccessAt: this.lastSuccessAt,
+      retryAt:
+        state === "open" ? this.openedAt + this.config.cooldownMs : undefined,
+    };
+  }
+
+  reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  private onSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = Date.now();
+  }
+
+  private onFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastFailureAt = Date.now();
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateMos,
+  qualityLevel,
+  summarizeStats,
+  worstQuality,
+  type StatsSample,
+} from "./connection-quality";
+
+// getStats() resolves to a map of stat id to stat
+function report(...stats: Record<string, any>[]): RTCStatsReport {
+  return new Map(stats.map((stat, i) => [`stat-${i}`, stat])) as any;
+}
+
+const candidatePair = (rtt: number) => ({
+  type: "candidate-pair",
+  nominated: true,
+  state: "succeeded",
+  currentRoundTripTime: rtt,
+});
+
+const inboundAudio = (stat: Partial<StatsSample> & { jitter?: number }) => ({
+  type: "inbound-rtp",
+  kind: "audio",
+  jitter: 0,
+  bytesReceived: 0,
+  packetsReceived: 0,
+  packetsLost: 0,
+  timestamp: 0,
+  ...stat,
+});
+
+describe("estimateMos", () => {
+  it("rates a clean, nearby link as excellent", () => {
+    const mos = estimateMos(40, 5, 0);
+
+    expect(mos).toBeCloseTo(4.39, 2);
+    expect(qualityLevel(mos)).toBe("excellent");
+  });
+
+  it("drops with packet loss", () => {
+    expect(estimateMos(40, 5, 0.05)).toBeCloseTo(4.01, 2);
+    expect(qualityLevel(estimateMos(40, 5, 0.1))).toBe("fair");
+  });
+
+  it("drops with delay, counting jitter double", () => {
+    expect(estimateMos(600, 100, 0)).toBeCloseTo(2.8, 2);
+    expect(estimateMos(0, 50, 0)).toBeLessThan(estimateMos(100, 0, 0));
+  });
+
+  it("stays between 1 and 4.5", () => {
+    expect(estimateMos(40, 5, 1)).toBe(1);
+    expect(estimateMos(0, 0, 0)).toBeLessThanOrEqual(4.5);
+  });
+});
+
+describe("summarizeStats", () => {
+  it("measures loss and bitrate since the previous sample", () => {
+    const { sample: first } = summarizeStats(
+      report(
+        candidatePair(0.04),
+        inboundAudio({
+          timestamp: 1000,
+          bytesReceived: 10000,
+          packetsReceived: 100,
+        }),
+      ),
+    );
+
+    const { quality, sample } = summarizeStats(
+      report(
+        candidatePair(0.04),
+        inboundAudio({
+          timestamp: 3000,
+          bytesReceived: 20000,
+          packetsReceived: 190,
+          packetsLost: 10,
+          jitter: 0.005,
+        }),
+      ),
+      first,
+    );
+
+    expect(quality).toMatchObject({
+      rtt: 40,
+      jitter: 5,
+      packetLoss: 0.1,
+      bitrate: 40,
+      level: "fair",
+    });
+    expect(sample).toEqual({
+      timestamp: 3000,
+      bytesReceived: 20000,
+      packetsReceived: 190,
+      packetsLost: 10,
+    });
+  });
+
+  it("adds up audio tracks and keeps the worst jitter", () => {
+    const { quality, sample } = summarizeStats(
+      report(
+        inboundAudio({ packetsReceived: 50, jitter: 0.002 }),
+        inboundAudio({ packetsReceived: 30, jitter: 0.02 }),
+        { type: "inbound-rtp", kind: "video", packetsReceived: 1000 },
+      ),
+    );
+
+    expect(sample.packetsReceived).toBe(80);
+    expect(quality.jitter).toBe(20);
+  });
+
+  it("starts over when the counters restart", () => {
+    const previous: StatsSample = {
+      timestamp: 1000,
+      bytesReceived: 50000,
+      packetsReceived: 500,
+      packetsLost: 0,
+    };
+
+    // A renegotiated track counts from zero again
+    const { quality } = summarizeStats(
+      report(
+        inboundAudio({
+          timestamp: 2000,
+          bytesReceived: 1000,
+          packetsReceived: 45,
+          packetsLost: 5,
+        }),
+      ),
+      previous,
+    );
+
+    expect(quality.packetLoss).toBe(0.1);
+    expect(quality.bitrate).toBe(0);
+  });
+});
+
+describe("worstQuality", () => {
+  it("picks the lowest score", () => {
+    const good = summarizeStats(report(candidatePair(0.02))).quality;
+    const bad = summarizeStats(report(candidatePair(1.2))).quality;
+
+    expect(worstQuality([good, bad])).toBe(bad);
+    expect(worstQuality([])).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+export type QualityLevel = "excellent" | "good" | "fair" | "poor";
+
+export interface ConnectionQuality {
+  rtt: number; // ms
+  jitter: number; // ms
+  packetLoss: number; // fraction of packets lost since the last sample, 0-1
+  bitrate: number; // kbps received
+  mos: number; // 1 (bad) to 4.5 (best a VoIP call gets)
+  level: QualityLevel;
+}
+
+// Running totals from one getStats() call; quality is the change between two
+export interface StatsSample {
+  timestamp: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Mean opinion score from the simplified ITU-T G.107 E-model usually used
+// for VoIP monitoring. Jitter counts double since the jitter buffer turns
+// it into delay.
+export function estimateMos(
+  rtt: number,
+  jitter: number,
+  packetLoss: number,
+): number {
+  const latency = rtt / 2 + jitter * 2 + 10;
+  let r = latency < 160 ? 93.2 - latency / 40 : 93.2 - (latency - 120) / 10;
+  r -= packetLoss * 100 * 2.5;
+  r = Math.min(Math.max(r, 0), 100);
+
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+  return Math.min(Math.max(mos, 1), 4.5);
+}
+
+export function qualityLevel(mos: number): QualityLevel {
+  if (mos >= 4) return "excellent";
+  if (mos >= 3.6) return "good";
+  if (mos >= 3.1) return "fair";
+  return "poor";
+}
+
+export function summarizeStats(
+  report: RTCStatsReport,
+  previous?: StatsSample,
+): { quality: ConnectionQuality; sample: StatsSample } {
+  let rtt = 0;
+  let jitter = 0;
+  const sample: StatsSample = {
+    timestamp: 0,
+    bytesReceived: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+  };
+
+  report.forEach((stat) => {
+    if (
+      stat.type === "candidate-pair" &&
+      stat.nominated &&
+      stat.state === "succeeded"
+    ) {
+      rtt = (stat.currentRoundTripTime ?? 0) * 1000;
+    } else if (stat.type === "inbound-rtp" && stat.kind === "audio") {
+      // Microphone and voice tracks; the worse one is what we notice
+      jitter = Math.max(jitter, (stat.jitter ?? 0) * 1000);
+      sample.bytesReceived += stat.bytesReceived ?? 0;
+      sample.packetsReceived += stat.packetsReceived ?? 0;
+      sample.packetsLost += stat.packetsLost ?? 0;
+      sample.timestamp = Math.max(sample.timestamp, stat.timestamp);
+    }
+  });
+
+  // Counters start over when a track is replaced or the connection
+  // renegotiates; measure from the restart instead of going negative
+  if (
+    previous &&
+    (sample.packetsReceived < previous.packetsReceived ||
+      sample.bytesReceived < previous.bytesReceived)
+  ) {
+    previous = undefined;
+  }
+
+  const received = Math.max(
+    sample.packetsReceived - (previous?.packetsReceived ?? 0),
+    0,
+  );
+  const lost = Math.max(sample.packetsLost - (previous?.packetsLost ?? 0), 0);
+  const packetLoss = received + lost > 0 ? lost / (received + lost) : 0;
+
+  const elapsed = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+  const bitrate =
+    previous && elapsed > 0
+      ? ((sample.bytesReceived - previous.bytesReceived) * 8) / elapsed / 1000
+      : 0;
+
+  const mos = estimateMos(rtt, jitter, packetLoss);
+  return {
+    quality: {
+      rtt,
+      jitter,
+      packetLoss,
+      bitrate,
+      mos,
+      level: qualityLevel(mos),
+    },
+    sample,
+  };
+}
+
+// The peer with the lowest score, i.e. the link most likely to be heard
+export function worstQuality(
+  qualities: Iterable<ConnectionQuality>,
+): ConnectionQuality | null {
+  let worst: ConnectionQuality | null = null;
+  for (const quality of qualities) {
+    if (!worst || quality.mos < worst.mos) worst = quality;
+  }
+  return worst;
+}
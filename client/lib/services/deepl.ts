@@ -1,3 +1,18 @@
+import type {
+  CreateGlossaryRequest,
+  GlossaryEntry,
+  GlossaryLanguagePair,
+} from "@shared/api";
+import type { UserGlossaryRecord } from "@shared/database";
+import { getAuthHeaders } from "./auth";
+
+export type {
+  CreateGlossaryRequest,
+  GlossaryEntry,
+  GlossaryLanguagePair,
+  UserGlossaryRecord,
+};
+
 interface DeepLTranslateRequest {
   text: string[];
   target_lang: string;
@@ -5,12 +20,17 @@ interface DeepLTranslateRequest {
   formality?: "default" | "more" | "less" | "prefer_more" | "prefer_less";
   preserve_formatting?: boolean;
   tag_handling?: "xml" | "html";
+  glossary_id?: string;
+  // Set to false to keep the result out of the server's translation memory
+  remember?: boolean;
 }
 
 interface DeepLTranslateResponse {
   translations: Array<{
     detected_source_language: string;
     text: string;
+    // Served from translation memory instead of DeepL
+    from_memory?: boolean;
   }>;
 }
 
@@ -26,18 +46,27 @@ interface DeepLLanguage {
 }
 
 export class DeepLService {
-  private async makeRequest<T>(endpoint: string, data: any): Promise<T> {
+  private glossaries: UserGlossaryRecord[] | null = null;
+
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
     const response = await fetch(`/api/deepl${endpoint}`, {
-      method: endpoint === "/translate" ? "POST" : "GET",
+      ...options,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+        ...(options.headers || {}),
       },
-      body: endpoint === "/translate" ? JSON.stringify(data) : undefined
     });
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`DeepL API error: ${response.status} - ${errorText}`);
     }
+    if (response.status === 204) {
+      return undefined as T;
+    }
     return response.json();
   }
 
@@ -48,10 +77,15 @@ export class DeepLService {
     options: {
       formality?: "default" | "more" | "less";
       preserveFormatting?: boolean;
+      glossaryId?: string;
+      // Live captions: rate limited apart from full translations and
+      // kept out of translation memory
+      interim?: boolean;
     } = {},
   ): Promise<{
     text: string;
     detectedSourceLanguage: string;
+    fromMemory: boolean;
   }> {
     try {
       const request: DeepLTranslateRequest = {
@@ -61,11 +95,15 @@ export class DeepLService {
         preserve_formatting: options.preserveFormatting || true,
       };
       if (sourceLanguage) {
-        request.source_lang = this.normalizeLanguageCode(sourceLanguage);
+        request.source_lang = this.normalizeSourceLanguage(sourceLanguage);
+      }
+      // DeepL only applies a glossary when the source language is explicit
+      if (options.glossaryId && request.source_lang) {
+        request.glossary_id = options.glossaryId;
       }
       const response = await this.makeRequest<DeepLTranslateResponse>(
-        "/translate",
-        request,
+        options.interim ? "/translate/interim" : "/translate",
+        { method: "POST", body: JSON.stringify(request) },
       );
       const translation = response.translations[0];
       if (!translation) {
@@ -74,6 +112,7 @@ export class DeepLService {
       return {
         text: translation.text,
         detectedSourceLanguage: translation.detected_source_language,
+        fromMemory: translation.from_memory === true,
       };
     } catch (error) {
       console.error("DeepL translation failed:", error);
@@ -83,7 +122,7 @@ export class DeepLService {
 
   async getUsage(): Promise<DeepLUsageResponse> {
     try {
-      return await this.makeRequest<DeepLUsageResponse>("/usage", {});
+      return await this.makeRequest<DeepLUsageResponse>("/usage");
     } catch (error) {
       console.error("Failed to get DeepL usage:", error);
       throw error;
@@ -96,8 +135,8 @@ export class DeepLService {
   }> {
     try {
       const [sourceLanguages, targetLanguages] = await Promise.all([
-        this.makeRequest<DeepLLanguage[]>("/languages?type=source", {}),
-        this.makeRequest<DeepLLanguage[]>("/languages?type=target", {}),
+        this.makeRequest<DeepLLanguage[]>("/languages?type=source"),
+        this.makeRequest<DeepLLanguage[]>("/languages?type=target"),
       ]);
       return {
         source: sourceLanguages,
@@ -118,6 +157,11 @@ export class DeepLService {
     return codeMap[code.toLowerCase()] || code.toUpperCase();
   }
 
+  // Source languages never carry a regional variant
+  private normalizeSourceLanguage(code: string): string {
+    return code.split(/[-_]/)[0].toUpperCase();
+  }
+
   async batchTranslate(
     texts: string[],
     targetLanguage: string,
@@ -130,11 +174,11 @@ export class DeepLService {
         preserve_formatting: true,
       };
       if (sourceLanguage) {
-        request.source_lang = this.normalizeLanguageCode(sourceLanguage);
+        request.source_lang = this.normalizeSourceLanguage(sourceLanguage);
       }
       const response = await this.makeRequest<DeepLTranslateResponse>(
         "/translate",
-        request,
+        { method: "POST", body: JSON.stringify(request) },
       );
       return response.translations.map((translation) => ({
         text: translation.text,
@@ -145,6 +189,82 @@ export class DeepLService {
       throw error;
     }
   }
+
+  // Glossaries
+  async listGlossaries(): Promise<UserGlossaryRecord[]> {
+    try {
+      this.glossaries =
+        await this.makeRequest<UserGlossaryRecord[]>("/glossaries");
+      return this.glossaries;
+    } catch (error) {
+      console.error("Failed to list glossaries:", error);
+      throw error;
+    }
+  }
+
+  // Replaces any existing glossary for the same language pair
+  async createGlossary(
+    request: CreateGlossaryRequest,
+  ): Promise<UserGlossaryRecord> {
+    try {
+      const glossary = await this.makeRequest<UserGlossaryRecord>(
+        "/glossaries",
+        { method: "POST", body: JSON.stringify(request) },
+      );
+      this.glossaries = null;
+      return glossary;
+    } catch (error) {
+      console.error("Failed to create glossary:", error);
+      throw error;
+    }
+  }
+
+  async getGlossaryEntries(glossaryId: string): Promise<GlossaryEntry[]> {
+    try {
+      return await this.makeRequest<GlossaryEntry[]>(
+        `/glossaries/${encodeURIComponent(glossaryId)}/entries`,
+      );
+    } catch (error) {
+      console.error("Failed to get glossary entries:", error);
+      throw error;
+    }
+  }
+
+  async deleteGlossary(glossaryId: string): Promise<void> {
+    try {
+      await this.makeRequest<void>(
+        `/glossaries/${encodeURIComponent(glossaryId)}`,
+        { method: "DELETE" },
+      );
+      this.glossaries = null;
+    } catch (error) {
+      console.error("Failed to delete glossary:", error);
+      throw error;
+    }
+  }
+
+  async getGlossaryLanguagePairs(): Promise<GlossaryLanguagePair[]> {
+    return this.makeRequest<GlossaryLanguagePair[]>(
+      "/glossaries/language-pairs",
+    );
+  }
+
+  // The user's glossary for a language pair, if they have one
+  async findGlossary(
+    sourceLanguage: string,
+    targetLanguage: string,
+  ): Promise<UserGlossaryRecord | null> {
+    const glossaries = this.glossaries ?? (await this.listGlossaries());
+    const source = sourceLanguage.split(/[-_]/)[0].toLowerCase();
+    const target = targetLanguage.split(/[-_]/)[0].toLowerCase();
+    return (
+      glossaries.find(
+        (glossary) =>
+          glossary.source_language === source &&
+          glossary.target_language === target,
+      ) || null
+    );
+  }
 }
 
 export default new DeepLService();
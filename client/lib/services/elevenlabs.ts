@@ -1,3 +1,12 @@
+import { getAuthHeaders } from "./auth";
+import StreamingAudioPlayer, {
+  PlaybackEvent,
+  PlaybackFormat,
+  PlaybackProgress,
+} from "./player";
+
+const PCM_SAMPLE_RATE = 24000;
+
 interface ElevenLabsVoice {
   voice_id: string;
   name: string;
@@ -79,17 +88,31 @@ interface VoiceCloneRequest {
 }
 
 export class ElevenLabsService {
-  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  private activePlayer: StreamingAudioPlayer | null = null;
+  private activeStream: AbortController | null = null;
+  private playbackCallbacks: Map<PlaybackEvent, (...args: any[]) => void> =
+    new Map();
+
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
     const response = await fetch(`/api/elevenlabs${endpoint}`, {
       ...options,
       headers: {
-        "Content-Type": "application/json",
-        ...(options.headers || {})
-      }
+        // Let the browser set the multipart boundary for FormData bodies
+        ...(options.body instanceof FormData
+          ? {}
+          : { "Content-Type": "application/json" }),
+        ...(await getAuthHeaders()),
+        ...(options.headers || {}),
+      },
     });
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
+      throw new Error(
+        `ElevenLabs API error: ${response.status} - ${errorText}`,
+      );
     }
     if (response.headers.get("content-type")?.includes("application/json")) {
       return response.json();
@@ -137,13 +160,15 @@ export class ElevenLabsService {
   async streamTextToSpeech(
     text: string,
     voiceId: string,
-    onChunk: (chunk: ArrayBuffer) => void,
+    onChunk: (chunk: Uint8Array) => void,
     options: {
       modelId?: string;
       stability?: number;
       similarityBoost?: number;
       style?: number;
       useSpeakerBoost?: boolean;
+      outputFormat?: PlaybackFormat;
+      signal?: AbortSignal;
     } = {},
   ): Promise<void> {
     const request: TTSRequest = {
@@ -158,21 +183,31 @@ export class ElevenLabsService {
       },
     };
 
+    // Raw PCM for browsers that can't feed MP3 into MediaSource
+    const query =
+      options.outputFormat === "pcm"
+        ? `?output_format=pcm_${PCM_SAMPLE_RATE}`
+        : "";
+
     try {
       const response = await fetch(
-        `${this.baseUrl}/text-to-speech/${voiceId}/stream`,
+        `/api/elevenlabs/text-to-speech/${voiceId}/stream${query}`,
         {
           method: "POST",
           headers: {
-            "xi-api-key": this.apiKey,
             "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
           },
           body: JSON.stringify(request),
+          signal: options.signal,
         },
       );
 
       if (!response.ok) {
-        throw new Error(`Streaming TTS failed: ${response.status}`);
+        const errorText = await response.text();
+        throw new Error(
+          `ElevenLabs API error: ${response.status} - ${errorText}`,
+        );
       }
 
       const reader = response.body?.getReader();
@@ -184,9 +219,10 @@ export class ElevenLabsService {
         const { done, value } = await reader.read();
         if (done) break;
 
-        onChunk(value.buffer);
+        onChunk(value);
       }
     } catch (error) {
+      if ((error as Error).name === "AbortError") return;
       console.error("Streaming TTS failed:", error);
       throw error;
     }
@@ -352,7 +388,8 @@ export class ElevenLabsService {
     }
   }
 
-  async getHistory(): Promise<
+  // Generations in one of the user's cloned voices
+  async getHistory(voiceId: string): Promise<
     Array<{
       history_item_id: string;
       request_id: string;
@@ -370,16 +407,6 @@ export class ElevenLabsService {
         style: number;
         use_speaker_boost: boolean;
       };
-      feedback: {
-        thumbs_up: boolean;
-        feedback: string;
-        emotions: boolean;
-        inaccurate_clone: boolean;
-        glitches: boolean;
-        audio_quality: boolean;
-        other: boolean;
-        review_status: string;
-      };
     }>
   > {
     try {
@@ -387,7 +414,7 @@ export class ElevenLabsService {
         history: Array<any>;
         last_history_item_id: string;
         has_more: boolean;
-      }>("/history");
+      }>(`/history?voice_id=${encodeURIComponent(voiceId)}`);
       return response.history;
     } catch (error) {
       console.error("Failed to get history:", error);
@@ -398,7 +425,7 @@ export class ElevenLabsService {
   async downloadHistoryItem(historyItemId: string): Promise<ArrayBuffer> {
     try {
       const response = await this.makeRequest<Response>(
-        `/history/${historyItemId}/audio`,
+        `/history/${encodeURIComponent(historyItemId)}/audio`,
       );
       return await response.arrayBuffer();
     } catch (error) {
@@ -438,57 +465,103 @@ export class ElevenLabsService {
       similarityBoost?: number;
       style?: number;
       useSpeakerBoost?: boolean;
+      // Called once, when the first audio arrives
+      onFirstChunk?: () => void;
     },
   ): Promise<void> {
-    const audioChunks: ArrayBuffer[] = [];
-    let audioContext: AudioContext | null = null;
-    let source: AudioBufferSourceNode | null = null;
+    // Only one utterance plays at a time
+    this.stopPlayback();
+    const { onFirstChunk, ...voiceOptions } = options || {};
+    let firstChunk = true;
+
+    const format = StreamingAudioPlayer.preferredFormat();
+    const player = new StreamingAudioPlayer({
+      format,
+      sampleRate: PCM_SAMPLE_RATE,
+    });
+    const controller = new AbortController();
+    this.activePlayer = player;
+    this.activeStream = controller;
 
-    try {
-      audioContext = new AudioContext();
+    this.playbackCallbacks.forEach((callback, event) => {
+      player.on(event, callback);
+    });
+
+    let playbackError: unknown = null;
+    player.on("error", (error) => {
+      playbackError = error;
+      controller.abort();
+      this.playbackCallbacks.get("error")?.(error);
+    });
+    player.on("stop", (progress) => {
+      controller.abort();
+      this.playbackCallbacks.get("stop")?.(progress);
+    });
 
+    try {
       await this.streamTextToSpeech(
         text,
         voiceId,
-        async (chunk) => {
-          audioChunks.push(chunk);
-
-          // Concatenate all chunks and play
-          const totalLength = audioChunks.reduce(
-            (sum, chunk) => sum + chunk.byteLength,
-            0,
-          );
-          const concatenated = new Uint8Array(totalLength);
-          let offset = 0;
-
-          for (const chunk of audioChunks) {
-            concatenated.set(new Uint8Array(chunk), offset);
-            offset += chunk.byteLength;
-          }
-
-          try {
-            const audioBuffer = await audioContext!.decodeAudioData(
-              concatenated.buffer,
-            );
-            source = audioContext!.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContext!.destination);
-            source.start();
-          } catch (decodeError) {
-            // Chunk might not be complete yet, continue collecting
+        (chunk) => {
+          if (firstChunk) {
+            firstChunk = false;
+            onFirstChunk?.();
           }
+          player.appendChunk(chunk);
         },
-        options,
+        { ...voiceOptions, outputFormat: format, signal: controller.signal },
       );
+      player.endOfStream();
+      await player.done();
+
+      if (playbackError) {
+        throw playbackError;
+      }
     } catch (error) {
+      player.stop();
       console.error("Stream and play failed:", error);
       throw error;
     } finally {
-      if (audioContext) {
-        audioContext.close();
+      if (this.activePlayer === player) {
+        this.activePlayer = null;
+        this.activeStream = null;
       }
     }
   }
+
+  pausePlayback(): void {
+    this.activePlayer?.pause();
+  }
+
+  resumePlayback(): void {
+    this.activePlayer?.resume();
+  }
+
+  stopPlayback(): void {
+    this.activeStream?.abort();
+    this.activePlayer?.stop();
+  }
+
+  getPlaybackProgress(): PlaybackProgress | null {
+    return this.activePlayer?.getProgress() ?? null;
+  }
+
+  isPlaying(): boolean {
+    return this.activePlayer !== null;
+  }
+
+  // Applies to the current and every later streamAndPlay call
+  onPlaybackEvent(
+    event: PlaybackEvent,
+    callback: (...args: any[]) => void,
+  ): () => void {
+    this.playbackCallbacks.set(event, callback);
+    // "error" and "stop" are already relayed through playbackCallbacks
+    if (event !== "error" && event !== "stop") {
+      this.activePlayer?.on(event, callback);
+    }
+    return () => this.playbackCallbacks.delete(event);
+  }
 }
 
 export default new ElevenLabsService();
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TranslationMessage } from "./ably";
+import { TranslationFSM } from "./fsm";
+import {
+  ProviderRegistry,
+  type SpeechToTextProvider,
+  type TextToSpeechProvider,
+  type TranslationProvider,
+} from "./providers";
+
+// One session everyone in the test is part of: who listens in what, and
+// the peer-to-peer link translations travel over
+const { session } = vi.hoisted(() => ({
+  session: {
+    listening: [] as string[],
+    peers: new Set<(translation: TranslationMessage) => void>(),
+  },
+}));
+
+vi.mock("./auth", () => ({ getAuthHeaders: async () => ({}) }));
+
+vi.mock("./ably", () => {
+  const enter = async (sessionId: string, _: string, language: string) => {
+    session.listening.push(language);
+    return sessionId;
+  };
+  return {
+    default: {
+      createSession: vi.fn(enter),
+      joinSession: vi.fn(enter),
+      onSessionUpdate: () => () => {},
+      getListeningLanguages: () => Array.from(new Set(session.listening)),
+      getTranslationMode: () => "sender",
+      setListeningLanguage: async () => {},
+      setParticipantStatus: () => {},
+      updateParticipantStatus: async () => {},
+    },
+  };
+});
+
+vi.mock("./webrtc", () => ({
+  default: {
+    joinMesh: () => () => {},
+    onPeerEvent: () => {},
+    onStatusReceived: () => () => {},
+    onTranslationReceived: (
+      callback: (translation: TranslationMessage) => void,
+    ) => {
+      session.peers.add(callback);
+      return () => session.peers.delete(callback);
+    },
+    sendTranslation: async (translation: TranslationMessage) => {
+      session.peers.forEach((deliver) => deliver(translation));
+    },
+    startAudioStream: async () => {},
+    sendStatus: () => {},
+    getConnectedPeers: () => [],
+    playRemoteVoice: () => false,
+  },
+}));
+
+vi.mock("./neon", () => ({
+  default: {
+    createSession: async () => {},
+    addParticipant: async () => {},
+    saveTranslation: async () => {},
+    saveReceivedTranslation: async () => {},
+  },
+}));
+
+vi.mock("./sessions", () => {
+  const registered = async () => ({ code: "ABCDEF", sessionId: "session_1" });
+  return {
+    default: { createSession: registered, joinSession: registered },
+  };
+});
+
+vi.mock("./latency", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./latency")>()),
+  default: { report: () => {} },
+}));
+
+vi.mock("./recorder", () => ({
+  default: class {
+    on() {}
+    async initialize() {}
+    async startRecording() {}
+    stopRecording() {
+      return new Blob(["audio"]);
+    }
+    async peekRecording() {
+      return null;
+    }
+    async watchForBargeIn() {}
+    stopWatchingForBargeIn() {}
+  },
+}));
+
+// Transcribes everything as the same line and tags translations with
+// the language they're in
+function participant(id: string, sourceLanguage: string, says: string) {
+  const stt: SpeechToTextProvider = {
+    id: "stt",
+    transcribe: async () => ({
+      text: says,
+      confidence: 1,
+      language: sourceLanguage,
+      duration: 1,
+      segments: [],
+    }),
+  };
+  const translation: TranslationProvider = {
+    id: "translation",
+    translate: async (text, targetLanguage) => ({
+      text: `[${targetLanguage}] ${text}`,
+      detectedSourceLanguage: sourceLanguage,
+      enhanced: false,
+      provider: "translation",
+    }),
+  };
+  const tts = {
+    id: "tts",
+    synthesize: async () => new ArrayBuffer(0),
+    play: async () => {},
+    speak: vi.fn(async () => {}),
+    stop: () => {},
+  } satisfies TextToSpeechProvider;
+
+  const registry = new ProviderRegistry();
+  registry.register("stt", stt);
+  registry.register("translation", translation);
+  registry.register("tts", tts);
+
+  const fsm = new TranslationFSM(
+    {
+      userId: id,
+      username: id,
+      isHost: false,
+      mode: "just-me",
+      sourceLanguage,
+      targetLanguage: sourceLanguage === "en" ? "es" : "en",
+    },
+    registry,
+  );
+  return { fsm, tts };
+}
+
+async function speak(fsm: TranslationFSM): Promise<void> {
+  await fsm.send("START_RECORDING");
+  await fsm.send("STOP_RECORDING");
+  await vi.waitFor(() => expect(fsm.getState()).toBe("awaiting_send"));
+  await fsm.send("SEND_TRANSLATION");
+}
+
+describe("TranslationFSM", () => {
+  beforeEach(() => {
+    session.listening = [];
+    session.peers.clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("gets each side of a conversation the other's words in its own language", async () => {
+    const alice = participant("alice", "en", "Good morning");
+    const bruno = participant("bruno", "es", "Buenos días");
+    await alice.fsm.send("START_HOST");
+    await bruno.fsm.send("START_JOIN", { code: "ABCDEF" });
+    expect(session.listening).toEqual(["en", "es"]);
+
+    await speak(alice.fsm);
+    await vi.waitFor(() =>
+      expect(bruno.tts.speak).toHaveBeenCalledWith("[es] Good morning", {
+        language: "es",
+      }),
+    );
+    expect(bruno.fsm.getContext().lastTranslation).toMatchObject({
+      originalText: "Good morning",
+      translatedText: "[es] Good morning",
+      targetLanguage: "es",
+    });
+
+    await speak(bruno.fsm);
+    await vi.waitFor(() =>
+      expect(alice.tts.speak).toHaveBeenCalledWith("[en] Buenos días", {
+        language: "en",
+      }),
+    );
+    expect(alice.fsm.getContext().lastTranslation).toMatchObject({
+      originalText: "Buenos días",
+      translatedText: "[en] Buenos días",
+      targetLanguage: "en",
+    });
+  });
+});
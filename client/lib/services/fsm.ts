@@ -1,11 +1,22 @@
-import AblyService, { SessionState, TranslationMessage } from "./ably";
+import AblyService, {
+  SessionState,
+  TranslationMessage,
+  TranslationMode,
+} from "./ably";
 import WebRTCService from "./webrtc";
 import AudioRecorderService from "./recorder";
-import DeepLService from "./deepl";
-import OpenRouterService from "./openrouter";
+import LatencyService, { LatencyTrace, timed } from "./latency";
+import StreamingTranscriber, {
+  InterimTranscript,
+} from "./streaming-transcription";
 import NeonService from "./neon";
-import ElevenLabsService from "./elevenlabs";
-import STTService from "./stt";
+import SessionRegistryService from "./sessions";
+import ProviderRegistryService, {
+  ProviderRegistry,
+  ProviderSelection,
+  ResolvedProviders,
+  TranslationResult,
+} from "./providers";
 
 export type FSMState =
   | "idle"
@@ -29,6 +40,7 @@ export type FSMEvent =
   | "CONNECTION_ESTABLISHED"
   | "START_RECORDING"
   | "STOP_RECORDING"
+  | "INTERIM_RESULT"
   | "AUDIO_READY"
   | "TRANSLATION_COMPLETE"
   | "SEND_TRANSLATION"
@@ -38,8 +50,32 @@ export type FSMEvent =
   | "DISCONNECT"
   | "RESET";
 
+export interface PendingTranslation {
+  originalText: string;
+  translatedText: string;
+  audioBuffer?: ArrayBuffer;
+  enhanced?: boolean;
+  translations?: Record<string, string>;
+  // Stage timings for this utterance
+  trace?: LatencyTrace;
+}
+
+// Where one utterance is in the pipeline; "speaking" covers sending
+// and playback
+export type UtteranceStage =
+  "transcribing" | "translating" | "queued" | "speaking" | "done" | "failed";
+
+export interface UtteranceState {
+  id: number;
+  stage: UtteranceStage;
+  originalText?: string;
+  translatedText?: string;
+  error?: string;
+}
+
 export interface FSMContext {
   sessionId?: string;
+  joinCode?: string;
   userId: string;
   username: string;
   isHost: boolean;
@@ -47,14 +83,26 @@ export interface FSMContext {
   participants: string[];
   currentRecording?: Blob;
   lastTranslation?: TranslationMessage;
-  pendingTranslation?: {
-    originalText: string;
-    translatedText: string;
-    audioBuffer?: ArrayBuffer;
-  };
+  pendingTranslation?: PendingTranslation;
   error?: string;
   sourceLanguage: string;
   targetLanguage: string;
+  providers?: ProviderSelection;
+  // User glossary for the current language pair
+  glossaryId?: string;
+  // Who translates in the session; the host's choice wins
+  translationMode?: TranslationMode;
+  // Participants we have a live peer connection with
+  connectedPeers?: string[];
+  // Mic stays open; voice activity detection ends each utterance
+  handsFree?: boolean;
+  // Record the next utterance while earlier ones are still translating
+  // or playing
+  pipelined?: boolean;
+  // Utterances in flight, oldest first
+  utterances?: UtteranceState[];
+  // Live captions for the recording in progress
+  interim?: InterimTranscript;
 }
 
 export interface FSMTransition {
@@ -74,14 +122,47 @@ export class TranslationFSM {
     (state: FSMState, context: FSMContext) => void
   > = new Map();
   private recorder: AudioRecorderService;
-
-  constructor(initialContext: Omit<FSMContext, "participants">) {
+  private transcriber: StreamingTranscriber;
+  private registry: ProviderRegistry;
+  private sessionSubscriptions: Array<() => void> = [];
+  // Hands-free utterances waiting for the FSM to be free
+  private utteranceQueue: Blob[] = [];
+  // Pipelined mode: outputs chain onto this so they play in order
+  private outputQueue: Promise<void> = Promise.resolve();
+  private nextUtteranceId = 1;
+  // Bumped on disconnect so in-flight utterances are dropped
+  private pipelineGeneration = 0;
+  // Set while the recorder finishes a pipelined recording
+  private awaitingPipelinedRecording = false;
+  private pipelinedTrace?: LatencyTrace;
+  // Timings for the recording in progress, then in serial mode for the
+  // utterance being processed
+  private recordingTrace?: LatencyTrace;
+  private recordingStartedAt = 0;
+  private processingTrace?: LatencyTrace;
+  // Set when barge-in cut the current playback short
+  private playbackInterrupted = false;
+
+  constructor(
+    initialContext: Omit<FSMContext, "participants">,
+    registry: ProviderRegistry = ProviderRegistryService,
+  ) {
     this.context = {
       ...initialContext,
       participants: [],
     };
+    this.registry = registry;
 
     this.recorder = new AudioRecorderService();
+    this.transcriber = new StreamingTranscriber({
+      getAudio: (fromMs) => this.recorder.peekRecording(fromMs),
+      transcribe: (audio) =>
+        this.providers.stt.transcribe(audio, {
+          language: this.context.sourceLanguage,
+          enablePunctuation: true,
+        }),
+      translate: (text) => this.translateInterim(text),
+    });
     this.setupTransitions();
     this.setupEventHandlers();
   }
@@ -137,12 +218,34 @@ export class TranslationFSM {
       },
 
       // From recording
+      {
+        from: "recording",
+        event: "INTERIM_RESULT",
+        to: "recording",
+        action: this.handleInterimResult.bind(this),
+      },
       {
         from: "recording",
         event: "STOP_RECORDING",
         to: "processing",
+        guard: (context) => !context.pipelined,
         action: this.handleStopRecording.bind(this),
       },
+      // Pipelined: hand the recording off and be ready for the next one
+      {
+        from: "recording",
+        event: "STOP_RECORDING",
+        to: "hosting",
+        guard: (context) => !!context.pipelined && context.isHost,
+        action: this.handleStopRecordingPipelined.bind(this),
+      },
+      {
+        from: "recording",
+        event: "STOP_RECORDING",
+        to: "connected",
+        guard: (context) => !!context.pipelined && !context.isHost,
+        action: this.handleStopRecordingPipelined.bind(this),
+      },
       {
         from: "recording",
         event: "ERROR",
@@ -219,6 +322,13 @@ export class TranslationFSM {
         event: "SPEECH_COMPLETE",
         to: this.context.isHost ? "hosting" : "connected",
       },
+      // Barge-in: the listener talks over the translation
+      {
+        from: "speaking",
+        event: "START_RECORDING",
+        to: "recording",
+        action: this.handleBargeIn.bind(this),
+      },
       {
         from: "speaking",
         event: "ERROR",
@@ -294,34 +404,64 @@ export class TranslationFSM {
     ];
   }
 
-  private setupEventHandlers(): void {
-    // Ably session events
-    AblyService.onSessionUpdate((sessionState: SessionState) => {
-      if (sessionState.isActive) {
-        this.context.participants = sessionState.participants.map((p) => p.id);
+  // Ably channels are per session, so these can only be attached once
+  // the session has been created or joined
+  private subscribeToSession(): void {
+    this.unsubscribeFromSession();
+
+    this.sessionSubscriptions.push(
+      WebRTCService.joinMesh(),
+      AblyService.onSessionUpdate((sessionState: SessionState) => {
+        if (sessionState.isActive) {
+          this.context.participants = sessionState.participants.map(
+            (p) => p.id,
+          );
+          this.context.translationMode = sessionState.translationMode;
+          WebRTCService.syncPeers(this.context.participants);
+          this.emitStateChange();
+        }
+      }),
+      WebRTCService.onTranslationReceived((translation: TranslationMessage) => {
+        if (translation.senderId !== this.context.userId) {
+          this.handleIncomingTranslation(translation).catch((error) => {
+            console.error("Failed to handle incoming translation:", error);
+          });
+        }
+      }),
+      WebRTCService.onStatusReceived((peerId, status) => {
+        AblyService.setParticipantStatus(peerId, status);
         this.emitStateChange();
-      }
-    });
+      }),
+    );
+  }
 
-    // Ably translation events
-    AblyService.onTranslationReceived((translation: TranslationMessage) => {
-      if (translation.senderId !== this.context.userId) {
-        this.context.lastTranslation = translation;
-        this.playTranslationAudio(translation);
-      }
-    });
+  private unsubscribeFromSession(): void {
+    this.sessionSubscriptions.forEach((unsubscribe) => unsubscribe());
+    this.sessionSubscriptions = [];
+  }
 
+  private setupEventHandlers(): void {
     // WebRTC events
     WebRTCService.onPeerEvent("*", (event) => {
-      if (event.type === "connected") {
-        this.send("CONNECTION_ESTABLISHED");
+      if (event.type === "connected" || event.type === "disconnected") {
+        this.context.connectedPeers = WebRTCService.getConnectedPeers();
+        this.emitStateChange();
       } else if (event.type === "error") {
-        this.send("ERROR", { error: event.data?.error });
+        // One unreachable peer shouldn't end the session for everyone else
+        console.error(`Peer ${event.peerId} error:`, event.data?.error);
       }
     });
 
     // Recorder events
     this.recorder.on("stop", (recording: Blob) => {
+      if (this.context.pipelined) {
+        if (this.awaitingPipelinedRecording) {
+          this.awaitingPipelinedRecording = false;
+          this.enqueueUtterance(recording, this.pipelinedTrace);
+          this.pipelinedTrace = undefined;
+        }
+        return;
+      }
       this.context.currentRecording = recording;
       this.send("AUDIO_READY");
     });
@@ -329,20 +469,52 @@ export class TranslationFSM {
     this.recorder.on("error", (error: any) => {
       this.send("ERROR", { error: error.message });
     });
+
+    // Hands-free: show the speaker as recording as soon as they start,
+    // unless we're still busy with the previous utterance
+    this.recorder.on("speechstart", () => {
+      if (
+        this.currentState === "hosting" ||
+        this.currentState === "connected"
+      ) {
+        this.send("START_RECORDING");
+      }
+    });
+
+    this.recorder.on("bargein", () => {
+      if (this.currentState === "speaking") {
+        this.send("START_RECORDING");
+      } else {
+        // Pipelined playback: hands-free already picks up whoever is
+        // talking, so just stop talking over them
+        this.interruptPlayback();
+      }
+    });
+
+    this.recorder.on("utterance", (recording: Blob) => {
+      this.utteranceQueue.push(recording);
+      this.drainUtterances().catch((error) => {
+        console.error("Failed to process utterance:", error);
+      });
+    });
   }
 
   async send(event: FSMEvent, data?: any): Promise<void> {
-    const transition = this.transitions.find(
+    const candidates = this.transitions.filter(
       (t) => t.from === this.currentState && t.event === event,
     );
 
-    if (!transition) {
+    if (candidates.length === 0) {
       console.warn(`No transition found for ${this.currentState} -> ${event}`);
       return;
     }
 
-    // Check guard condition
-    if (transition.guard && !transition.guard(this.context, data)) {
+    // Several transitions can share an event; the first whose guard
+    // passes wins
+    const transition = candidates.find(
+      (t) => !t.guard || t.guard(this.context, data),
+    );
+    if (!transition) {
       console.warn(
         `Guard condition failed for ${this.currentState} -> ${event}`,
       );
@@ -366,16 +538,53 @@ export class TranslationFSM {
     }
 
     this.emitStateChange();
+
+    // Back to idle with hands-free speech still waiting
+    if (
+      this.utteranceQueue.length > 0 &&
+      (this.currentState === "hosting" || this.currentState === "connected")
+    ) {
+      this.drainUtterances().catch((error) => {
+        console.error("Failed to process utterance:", error);
+      });
+    }
+  }
+
+  // Feed the next hands-free utterance through the same transitions as
+  // tapping the mic button twice
+  private async drainUtterances(): Promise<void> {
+    if (this.utteranceQueue.length === 0) return;
+
+    if (this.currentState === "hosting" || this.currentState === "connected") {
+      await this.send("START_RECORDING");
+    }
+    if (this.currentState !== "recording") return;
+
+    this.context.currentRecording = this.utteranceQueue.shift();
+    await this.send("STOP_RECORDING");
   }
 
   // Action handlers
   private async handleStartHost(): Promise<void> {
     try {
       this.context.isHost = true;
-      this.context.sessionId = await AblyService.createSession();
+
+      // Register a short join code that maps onto the Ably session
+      const registered = await SessionRegistryService.createSession();
+      this.context.joinCode = registered.code;
+      this.context.sessionId = await AblyService.createSession(
+        registered.sessionId,
+        this.context.username,
+        this.context.sourceLanguage,
+        this.context.translationMode,
+      );
+      this.subscribeToSession();
 
       // Save session to database
-      await NeonService.createSession(this.context.userId);
+      await NeonService.createSession(
+        this.context.userId,
+        this.context.sessionId,
+      );
       await NeonService.addParticipant(
         this.context.sessionId,
         this.context.userId,
@@ -394,17 +603,38 @@ export class TranslationFSM {
 
   private async handleStartJoin(
     context: FSMContext,
-    data: { sessionId: string },
+    data: { sessionId?: string; code?: string },
   ): Promise<void> {
     try {
       this.context.isHost = false;
-      this.context.sessionId = data.sessionId;
 
-      await AblyService.joinSession(data.sessionId, this.context.username);
+      let sessionId = data.sessionId;
+      let hostId: string | undefined;
+      if (data.code) {
+        // Resolve the join code, enforcing expiry and capacity server-side
+        const joined = await SessionRegistryService.joinSession(data.code);
+        this.context.joinCode = joined.code;
+        sessionId = joined.sessionId;
+        hostId = joined.hostId;
+      }
+
+      if (!sessionId) {
+        throw new Error("No session code or ID provided");
+      }
+
+      this.context.sessionId = sessionId;
+
+      await AblyService.joinSession(
+        sessionId,
+        this.context.username,
+        this.context.sourceLanguage,
+        hostId,
+      );
+      this.subscribeToSession();
 
       // Add participant to database
       await NeonService.addParticipant(
-        data.sessionId,
+        sessionId,
         this.context.userId,
         this.context.username,
         false,
@@ -421,17 +651,38 @@ export class TranslationFSM {
 
   private async handleStartRecording(): Promise<void> {
     try {
-      await this.recorder.initialize();
-      await this.recorder.startRecording();
+      // Hands-free already has the mic open
+      if (!this.context.handsFree) {
+        await this.recorder.initialize();
+        await this.recorder.startRecording();
+      }
+
+      this.recordingTrace = new LatencyTrace();
+      this.recordingStartedAt = performance.now();
+      this.startInterimTranscripts();
 
       // Update participant status
+      WebRTCService.sendStatus("speaking");
       await AblyService.updateParticipantStatus("speaking");
     } catch (error) {
       this.send("ERROR", { error: error.message });
     }
   }
 
+  private async handleBargeIn(): Promise<void> {
+    this.interruptPlayback();
+    await this.handleStartRecording();
+  }
+
+  private interruptPlayback(): void {
+    this.playbackInterrupted = true;
+    this.recorder.stopWatchingForBargeIn();
+    this.providers.tts.stop();
+  }
+
   private async handleStopRecording(): Promise<void> {
+    this.transcriber.stop();
+    this.processingTrace = this.finishRecordingTrace();
     try {
       const recording = this.recorder.stopRecording();
       if (recording) {
@@ -439,39 +690,108 @@ export class TranslationFSM {
       }
 
       // Update participant status
+      WebRTCService.sendStatus("connected");
       await AblyService.updateParticipantStatus("connected");
 
       this.send("AUDIO_READY");
+    } catch (error) {
+      this.send("ERROR", { error: (error as Error).message });
+    }
+  }
+
+  private async handleStopRecordingPipelined(): Promise<void> {
+    this.transcriber.stop();
+    const trace = this.finishRecordingTrace();
+    try {
+      if (this.context.handsFree) {
+        // Already cut by voice activity detection
+        const recording = this.context.currentRecording;
+        if (recording) this.enqueueUtterance(recording, trace);
+      } else {
+        // The complete recording arrives with the recorder's "stop" event
+        this.awaitingPipelinedRecording = true;
+        this.pipelinedTrace = trace;
+        this.recorder.stopRecording();
+      }
+
+      // Update participant status
+      WebRTCService.sendStatus("connected");
+      await AblyService.updateParticipantStatus("connected");
     } catch (error) {
       this.send("ERROR", { error: error.message });
     }
   }
 
+  // The recording's timings move on with its utterance
+  private finishRecordingTrace(): LatencyTrace | undefined {
+    const trace = this.recordingTrace;
+    trace?.record("record", performance.now() - this.recordingStartedAt);
+    this.recordingTrace = undefined;
+    return trace;
+  }
+
+  private reportLatency(trace: LatencyTrace | undefined): void {
+    if (!trace) return;
+    LatencyService.report(trace, {
+      sessionId: this.context.sessionId,
+      mode: this.context.mode,
+    });
+  }
+
+  private startInterimTranscripts(): void {
+    this.context.interim = undefined;
+    this.transcriber.start((interim) => {
+      this.send("INTERIM_RESULT", interim);
+    });
+  }
+
+  private async handleInterimResult(
+    _context: FSMContext,
+    interim: InterimTranscript,
+  ): Promise<void> {
+    this.context.interim = interim;
+  }
+
+  // Captions only. Receivers who translate for themselves get just the
+  // transcript.
+  private async translateInterim(text: string): Promise<string | null> {
+    if (this.translatesOnReceive) return null;
+
+    const translation = await this.providers.translation.translate(
+      text,
+      this.context.targetLanguage,
+      this.context.sourceLanguage,
+      { glossaryId: this.context.glossaryId, interim: true },
+    );
+    return translation.text;
+  }
+
   private async handleAudioReady(): Promise<void> {
     if (!this.context.currentRecording) {
       this.send("ERROR", { error: "No recording available" });
       return;
     }
 
+    const trace = this.processingTrace;
     try {
-      // Convert speech to text using STT service
-      const sttResult = await STTService.transcribeAudio(
+      const originalText = await this.transcribe(
         this.context.currentRecording,
-        {
-          language: this.context.sourceLanguage,
-          enablePunctuation: true,
-        },
+        trace,
       );
 
-      if (!sttResult.text.trim()) {
+      if (!originalText) {
         this.send("ERROR", { error: "No speech detected in recording" });
         return;
       }
 
+      // The final transcript replaces the captions
+      this.context.interim = undefined;
+
       // Store the transcribed text for translation
       this.context.pendingTranslation = {
-        originalText: sttResult.text,
+        originalText,
         translatedText: "",
+        trace,
       };
 
       this.send("TRANSLATION_COMPLETE");
@@ -486,40 +806,11 @@ export class TranslationFSM {
         throw new Error("No text to translate");
       }
 
-      const originalText = this.context.pendingTranslation.originalText;
-
-      // Translate with DeepL
-      const translation = await DeepLService.translateText(
-        originalText,
-        this.context.targetLanguage,
-        this.context.sourceLanguage,
-      );
-
-      // Enhance with OpenRouter AI
-      const enhancedTranslation = await OpenRouterService.enhanceTranslation(
-        originalText,
-        translation.text,
-        this.context.sourceLanguage,
-        this.context.targetLanguage,
-      );
-
-      // Generate TTS audio for the translation
-      const defaultVoiceId = "21m00Tcm4TlvDq8ikWAM"; // ElevenLabs default voice
-      const audioBuffer = await ElevenLabsService.textToSpeech(
-        enhancedTranslation,
-        defaultVoiceId,
-        {
-          stability: 0.5,
-          similarityBoost: 0.75,
-        },
-      );
-
       // Store the complete translation with audio
-      this.context.pendingTranslation = {
-        originalText,
-        translatedText: enhancedTranslation,
-        audioBuffer,
-      };
+      this.context.pendingTranslation = await this.prepareTranslation(
+        this.context.pendingTranslation.originalText,
+        this.context.pendingTranslation.trace,
+      );
 
       // For Just Me mode, wait for user confirmation to send
       // The state will transition to "awaiting_send"
@@ -529,68 +820,23 @@ export class TranslationFSM {
   }
 
   private async handleTranslationCompleteAutoPlay(): Promise<void> {
+    this.playbackInterrupted = false;
     try {
       if (!this.context.pendingTranslation?.originalText) {
         throw new Error("No text to translate");
       }
 
-      const originalText = this.context.pendingTranslation.originalText;
-
-      // Translate with DeepL
-      const translation = await DeepLService.translateText(
-        originalText,
-        this.context.targetLanguage,
-        this.context.sourceLanguage,
+      const pending = await this.translateForSpeech(
+        this.context.pendingTranslation.originalText,
+        this.context.pendingTranslation.trace,
       );
 
-      // Enhance with OpenRouter AI
-      const enhancedTranslation = await OpenRouterService.enhanceTranslation(
-        originalText,
-        translation.text,
-        this.context.sourceLanguage,
-        this.context.targetLanguage,
-      );
+      await this.speakTranslation(pending);
 
-      // For Talk Together mode, immediately play the translation
-      const defaultVoiceId = "21m00Tcm4TlvDq8ikWAM"; // ElevenLabs default voice
-
-      // Play audio immediately without storing
-      await ElevenLabsService.streamAndPlay(
-        enhancedTranslation,
-        defaultVoiceId,
-        {
-          stability: 0.5,
-          similarityBoost: 0.75,
-        },
-      );
-
-      // Create translation message for session history
-      const translationMessage: TranslationMessage = {
-        id: `trans_${Date.now()}`,
-        sessionId: this.context.sessionId!,
-        senderId: this.context.userId,
-        originalText,
-        translatedText: enhancedTranslation,
-        sourceLanguage: this.context.sourceLanguage,
-        targetLanguage: this.context.targetLanguage,
-        timestamp: Date.now(),
-      };
-
-      // Save to database
-      if (this.context.sessionId) {
-        await NeonService.saveTranslation({
-          session_id: this.context.sessionId,
-          sender_id: this.context.userId,
-          original_text: originalText,
-          translated_text: enhancedTranslation,
-          source_language: this.context.sourceLanguage,
-          target_language: this.context.targetLanguage,
-          enhanced_by_ai: true,
-        });
+      // Barge-in has already moved on to recording
+      if (this.currentState === "speaking") {
+        this.send("SPEECH_COMPLETE");
       }
-
-      this.context.lastTranslation = translationMessage;
-      this.send("SPEECH_COMPLETE");
     } catch (error) {
       this.send("ERROR", { error: error.message });
     }
@@ -602,70 +848,454 @@ export class TranslationFSM {
         throw new Error("No pending translation to send");
       }
 
-      const { originalText, translatedText, audioBuffer } =
-        this.context.pendingTranslation;
+      await this.deliverTranslation(this.context.pendingTranslation);
+      this.context.pendingTranslation = undefined;
 
-      // Create translation message
-      const translationMessage: TranslationMessage = {
-        id: `trans_${Date.now()}`,
-        sessionId: this.context.sessionId!,
-        senderId: this.context.userId,
-        originalText,
+      this.send("SPEECH_COMPLETE");
+    } catch (error) {
+      this.send("ERROR", { error: error.message });
+    }
+  }
+
+  private async handleSkipSend(): Promise<void> {
+    // Clear pending translation without sending
+    this.context.pendingTranslation = undefined;
+  }
+
+  // The steps below are shared by the serial handlers above and the
+  // pipeline, which runs them per utterance
+
+  // Empty when nothing was said
+  private async transcribe(
+    recording: Blob,
+    trace?: LatencyTrace,
+  ): Promise<string> {
+    const { stt } = this.providers;
+    const sttResult = await timed(trace, "stt", stt.id, () =>
+      stt.transcribe(recording, {
+        language: this.context.sourceLanguage,
+        enablePunctuation: true,
+      }),
+    );
+    return sttResult.text.trim();
+  }
+
+  // Just Me: translate for every listener and synthesize our own
+  // language, ready to send
+  private async prepareTranslation(
+    originalText: string,
+    trace?: LatencyTrace,
+  ): Promise<PendingTranslation> {
+    // Receivers translate and voice it themselves; just send the transcript
+    if (this.translatesOnReceive) {
+      return { originalText, translatedText: "", trace };
+    }
+
+    const { translation, translations } = await this.translateForListeners(
+      originalText,
+      trace,
+    );
+
+    // Generate TTS audio for the translation
+    const audioBuffer = await this.providers.tts.synthesize(translation.text, {
+      language: this.context.targetLanguage,
+      trace,
+    });
+
+    return {
+      originalText,
+      translatedText: translation.text,
+      audioBuffer,
+      enhanced: translation.enhanced,
+      translations,
+      trace,
+    };
+  }
+
+  // Talk Together: one translation, voiced by streaming TTS
+  private async translateForSpeech(
+    originalText: string,
+    trace?: LatencyTrace,
+  ): Promise<PendingTranslation> {
+    const translation = await this.providers.translation.translate(
+      originalText,
+      this.context.targetLanguage,
+      this.context.sourceLanguage,
+      { glossaryId: this.context.glossaryId, trace },
+    );
+    return {
+      originalText,
+      translatedText: translation.text,
+      enhanced: translation.enhanced,
+      trace,
+    };
+  }
+
+  private async speakTranslation(pending: PendingTranslation): Promise<void> {
+    const { originalText, translatedText, enhanced, trace } = pending;
+
+    // For Talk Together mode, play audio immediately without storing.
+    // Barge-in may come before playback starts, and stopping playback
+    // may reject; neither is a failure.
+    if (!this.playbackInterrupted) {
+      // Without a mic there's no barge-in, but playback goes ahead
+      this.recorder.watchForBargeIn().catch((error) => {
+        console.warn("Barge-in detection unavailable:", error);
+      });
+      try {
+        await this.providers.tts.speak(translatedText, {
+          language: this.context.targetLanguage,
+          trace,
+        });
+      } catch (error) {
+        if (!this.playbackInterrupted) throw error;
+      } finally {
+        this.recorder.stopWatchingForBargeIn();
+      }
+    }
+    const partiallyHeard = this.playbackInterrupted;
+    this.playbackInterrupted = false;
+
+    // Create translation message for session history
+    const translationMessage: TranslationMessage = {
+      id: `trans_${Date.now()}`,
+      sessionId: this.context.sessionId!,
+      senderId: this.context.userId,
+      originalText,
+      translatedText,
+      sourceLanguage: this.context.sourceLanguage,
+      targetLanguage: this.context.targetLanguage,
+      timestamp: Date.now(),
+      ...(partiallyHeard && { partiallyHeard }),
+    };
+
+    // Save to database
+    if (this.context.sessionId) {
+      await NeonService.saveTranslation({
+        session_id: this.context.sessionId,
+        sender_id: this.context.userId,
+        original_text: originalText,
+        translated_text: translatedText,
+        source_language: this.context.sourceLanguage,
+        target_language: this.context.targetLanguage,
+        enhanced_by_ai: enhanced ?? false,
+        partially_heard: partiallyHeard,
+      });
+    }
+
+    this.context.lastTranslation = translationMessage;
+    this.reportLatency(trace);
+  }
+
+  // Send to the session, record it, and play it back locally
+  private async deliverTranslation(pending: PendingTranslation): Promise<void> {
+    const {
+      originalText,
+      translatedText,
+      audioBuffer,
+      enhanced,
+      translations,
+      trace,
+    } = pending;
+
+    // Nothing was translated when receivers do it, so only the
+    // transcript goes out
+    const translated = translatedText !== "";
+
+    // Connected peers hear our synthesized audio live rather than
+    // synthesizing the same text again
+    const voiceStreamId =
+      translated && audioBuffer && WebRTCService.getConnectedPeers().length
+        ? WebRTCService.getVoiceStreamId()
+        : undefined;
+
+    // Create translation message
+    const translationMessage: TranslationMessage = {
+      id: `trans_${Date.now()}`,
+      sessionId: this.context.sessionId!,
+      senderId: this.context.userId,
+      originalText,
+      sourceLanguage: this.context.sourceLanguage,
+      timestamp: Date.now(),
+      ...(translated && {
         translatedText,
-        sourceLanguage: this.context.sourceLanguage,
         targetLanguage: this.context.targetLanguage,
-        timestamp: Date.now(),
-      };
+        translations,
+      }),
+      ...(voiceStreamId && { voiceStreamId }),
+    };
 
-      // Send via Ably to remote participants
-      if (this.context.sessionId) {
-        await AblyService.sendTranslation(translationMessage);
+    // Send to remote participants, peer-to-peer where possible
+    let voicing: Promise<void> = Promise.resolve();
+    if (this.context.sessionId) {
+      await WebRTCService.sendTranslation(translationMessage);
+      if (voiceStreamId) {
+        voicing = WebRTCService.streamVoice(audioBuffer!).catch((error) => {
+          console.error("Failed to stream translation audio:", error);
+        });
+      }
 
-        // Save to database
+      // Save to database, one row per language actually translated into
+      const rows = Object.entries(
+        translations ||
+          (translated ? { [this.context.targetLanguage]: translatedText } : {}),
+      ).filter(([language]) => language !== this.context.sourceLanguage);
+      for (const [language, text] of rows) {
         await NeonService.saveTranslation({
           session_id: this.context.sessionId,
           sender_id: this.context.userId,
           original_text: originalText,
-          translated_text: translatedText,
+          translated_text: text,
           source_language: this.context.sourceLanguage,
-          target_language: this.context.targetLanguage,
-          enhanced_by_ai: true,
+          target_language: language,
+          enhanced_by_ai:
+            language === this.context.targetLanguage
+              ? (enhanced ?? false)
+              : false,
         });
       }
+    }
+
+    // Play the audio locally for confirmation
+    if (audioBuffer) {
+      const { tts } = this.providers;
+      await timed(trace, "playback", tts.id, () => tts.play(audioBuffer));
+    }
+    await voicing;
+
+    this.context.lastTranslation = translationMessage;
+    this.reportLatency(trace);
+  }
 
-      // Play the audio locally for confirmation
-      if (audioBuffer) {
-        await ElevenLabsService.playAudioBuffer(audioBuffer);
+  // Pipelined mode. Each utterance is transcribed and translated as soon
+  // as it is recorded, but its output waits for the one before it, so
+  // playback stays in the order people spoke. There is no review step:
+  // Just Me sends each utterance when its turn comes.
+  private enqueueUtterance(recording: Blob, trace?: LatencyTrace): void {
+    const id = this.nextUtteranceId++;
+    const generation = this.pipelineGeneration;
+    this.context.interim = undefined;
+    this.context.utterances = [
+      ...(this.context.utterances || []),
+      { id, stage: "transcribing" },
+    ];
+    this.emitStateChange();
+
+    const prepared = this.prepareUtterance(id, recording, trace);
+    this.outputQueue = this.outputQueue.then(async () => {
+      const pending = await prepared;
+      if (generation !== this.pipelineGeneration) return;
+      if (pending) {
+        await this.outputUtterance(id, pending);
+      } else {
+        this.removeUtterance(id);
       }
+    });
+  }
 
-      this.context.lastTranslation = translationMessage;
-      this.context.pendingTranslation = undefined;
+  // Resolves with nothing when the utterance failed or was empty
+  private async prepareUtterance(
+    id: number,
+    recording: Blob,
+    trace?: LatencyTrace,
+  ): Promise<PendingTranslation | null> {
+    try {
+      const originalText = await this.transcribe(recording, trace);
+      if (!originalText) {
+        throw new Error("No speech detected in recording");
+      }
+      this.updateUtterance(id, { stage: "translating", originalText });
+
+      const pending =
+        this.context.mode === "talk-together"
+          ? await this.translateForSpeech(originalText, trace)
+          : await this.prepareTranslation(originalText, trace);
+      this.updateUtterance(id, {
+        stage: "queued",
+        translatedText: pending.translatedText,
+      });
+      return pending;
+    } catch (error) {
+      this.failUtterance(id, error);
+      return null;
+    }
+  }
 
-      this.send("SPEECH_COMPLETE");
+  private async outputUtterance(
+    id: number,
+    pending: PendingTranslation,
+  ): Promise<void> {
+    try {
+      this.updateUtterance(id, { stage: "speaking" });
+      if (this.context.mode === "talk-together") {
+        await this.speakTranslation(pending);
+      } else {
+        await this.deliverTranslation(pending);
+      }
+      this.updateUtterance(id, { stage: "done" });
     } catch (error) {
-      this.send("ERROR", { error: error.message });
+      this.failUtterance(id, error);
     }
+    this.removeUtterance(id);
   }
 
-  private async handleSkipSend(): Promise<void> {
-    // Clear pending translation without sending
-    this.context.pendingTranslation = undefined;
+  // A failed utterance is dropped; the ones after it carry on
+  private failUtterance(id: number, error: unknown): void {
+    console.error(`Utterance ${id} failed:`, error);
+    this.updateUtterance(id, {
+      stage: "failed",
+      error: (error as Error).message,
+    });
+  }
+
+  private updateUtterance(id: number, changes: Partial<UtteranceState>): void {
+    if (!this.context.utterances?.some((u) => u.id === id)) return;
+    this.context.utterances = this.context.utterances.map((u) =>
+      u.id === id ? { ...u, ...changes } : u,
+    );
+    this.emitStateChange();
+  }
+
+  private removeUtterance(id: number): void {
+    if (!this.context.utterances) return;
+    this.context.utterances = this.context.utterances.filter(
+      (u) => u.id !== id,
+    );
+    this.emitStateChange();
+  }
+
+  private resetPipeline(): void {
+    this.pipelineGeneration++;
+    this.outputQueue = Promise.resolve();
+    this.awaitingPipelinedRecording = false;
+    this.pipelinedTrace = undefined;
+    this.context.utterances = [];
+  }
+
+  // Translate once for ourselves, plus once for every other language
+  // participants are listening in. Only our own pair must succeed; a
+  // listener whose language failed falls back to translatedText.
+  private async translateForListeners(
+    originalText: string,
+    trace?: LatencyTrace,
+  ): Promise<{
+    translation: TranslationResult;
+    translations: Record<string, string>;
+  }> {
+    const { sourceLanguage, targetLanguage, glossaryId } = this.context;
+    const translator = this.providers.translation;
+
+    const others = AblyService.getListeningLanguages().filter(
+      (language) => language !== targetLanguage,
+    );
+
+    const [translation, ...results] = await Promise.all([
+      // Only our own pair is timed; it's the one we wait on
+      translator.translate(originalText, targetLanguage, sourceLanguage, {
+        glossaryId,
+        trace,
+      }),
+      ...others.map((language) =>
+        language === sourceLanguage
+          ? Promise.resolve(originalText)
+          : translator
+              .translate(originalText, language, sourceLanguage)
+              .then((result) => result.text)
+              .catch((error) => {
+                console.warn(`Translation to ${language} failed:`, error);
+                return undefined;
+              }),
+      ),
+    ]);
+
+    const translations: Record<string, string> = {
+      [targetLanguage]: translation.text,
+    };
+    others.forEach((language, index) => {
+      const text = results[index];
+      if (text !== undefined) translations[language] = text;
+    });
+
+    return { translation, translations };
+  }
+
+  private async handleIncomingTranslation(
+    translation: TranslationMessage,
+  ): Promise<void> {
+    const localized = await this.localizeTranslation(translation);
+    this.context.lastTranslation = localized;
+    this.emitStateChange();
+
+    // The sender's voice is already coming in live if it speaks our
+    // language and its stream reached us
+    const voicedLive =
+      translation.voiceStreamId !== undefined &&
+      translation.targetLanguage === this.context.sourceLanguage &&
+      WebRTCService.playRemoteVoice(
+        translation.senderId,
+        translation.voiceStreamId,
+      );
+    if (!voicedLive) {
+      await this.playTranslationAudio(localized);
+    }
+  }
+
+  // Pick out (or produce) the translation for the language we listen in,
+  // which is the one we speak
+  private async localizeTranslation(
+    translation: TranslationMessage,
+  ): Promise<TranslationMessage> {
+    const language = this.context.sourceLanguage;
+
+    const ownText = translation.translations?.[language];
+    if (ownText !== undefined) {
+      return {
+        ...translation,
+        translatedText: ownText,
+        targetLanguage: language,
+      };
+    }
+    if (translation.translatedText !== undefined) {
+      return translation;
+    }
+
+    // Receiver-side session: the sender only shipped the transcript
+    const { originalText, sourceLanguage } = translation;
+    let translatedText = originalText;
+    let enhanced = false;
+    if (sourceLanguage !== language) {
+      // No glossary: ours only covers what we say, not what we hear
+      const result = await this.providers.translation.translate(
+        originalText,
+        language,
+        sourceLanguage,
+      );
+      translatedText = result.text;
+      enhanced = result.enhanced;
+
+      // Nobody else records this language for the sender
+      await NeonService.saveReceivedTranslation({
+        session_id: translation.sessionId,
+        sender_id: translation.senderId,
+        original_text: originalText,
+        translated_text: translatedText,
+        source_language: sourceLanguage,
+        target_language: language,
+        enhanced_by_ai: enhanced,
+      }).catch(() => {});
+    }
+
+    return { ...translation, translatedText, targetLanguage: language };
   }
 
   private async playTranslationAudio(
     translation: TranslationMessage,
   ): Promise<void> {
     try {
-      const defaultVoiceId = "21m00Tcm4TlvDq8ikWAM"; // ElevenLabs default voice
-
       // Stream and play the translation audio
-      await ElevenLabsService.streamAndPlay(
-        translation.translatedText,
-        defaultVoiceId,
-        {
-          stability: 0.5,
-          similarityBoost: 0.75,
-        },
+      await this.providers.tts.speak(
+        translation.translatedText ?? translation.originalText,
+        { language: translation.targetLanguage ?? translation.sourceLanguage },
       );
     } catch (error) {
       console.error("Failed to play translation audio:", error);
@@ -681,6 +1311,8 @@ export class TranslationFSM {
     console.error("FSM Error:", data.error);
 
     // Cleanup any ongoing operations
+    this.transcriber.stop();
+    this.context.interim = undefined;
     if (this.recorder.getState().isRecording) {
       this.recorder.stopRecording();
     }
@@ -693,13 +1325,30 @@ export class TranslationFSM {
         this.recorder.stopRecording();
       }
       this.recorder.destroy();
+      this.transcriber.stop();
+      this.context.handsFree = false;
+      this.utteranceQueue = [];
+      this.resetPipeline();
+
+      // Cut off any translation still playing
+      this.providers.tts.stop();
 
       // Cleanup WebRTC
       WebRTCService.disconnect();
 
       // Leave Ably session
+      this.unsubscribeFromSession();
       await AblyService.leaveSession();
 
+      // Release the join code
+      if (this.context.joinCode) {
+        if (this.context.isHost) {
+          await SessionRegistryService.endSession(this.context.joinCode);
+        } else {
+          await SessionRegistryService.leaveSession(this.context.joinCode);
+        }
+      }
+
       // Update database
       if (this.context.sessionId) {
         await NeonService.removeParticipant(
@@ -716,10 +1365,12 @@ export class TranslationFSM {
       this.context = {
         ...this.context,
         sessionId: undefined,
+        joinCode: undefined,
         participants: [],
         currentRecording: undefined,
         lastTranslation: undefined,
         pendingTranslation: undefined,
+        interim: undefined,
         error: undefined,
       };
     } catch (error) {
@@ -761,6 +1412,64 @@ export class TranslationFSM {
   updateLanguages(sourceLanguage: string, targetLanguage: string): void {
     this.context.sourceLanguage = sourceLanguage;
     this.context.targetLanguage = targetLanguage;
+    // Belongs to the previous pair; the caller picks a new one
+    this.context.glossaryId = undefined;
+
+    // Senders fan out per listening language, so keep ours current
+    AblyService.setListeningLanguage(sourceLanguage).catch((error) => {
+      console.error("Failed to update listening language:", error);
+    });
+  }
+
+  updateGlossary(glossaryId: string | undefined): void {
+    this.context.glossaryId = glossaryId;
+  }
+
+  // Swap translation, STT or TTS engines for the rest of the session
+  updateProviders(selection: ProviderSelection): void {
+    const next = { ...this.context.providers, ...selection };
+    // Fail now rather than on the next utterance
+    this.registry.resolve(next);
+    this.context.providers = next;
+  }
+
+  private get translatesOnReceive(): boolean {
+    return (
+      !!this.context.sessionId &&
+      AblyService.getTranslationMode() === "receiver"
+    );
+  }
+
+  // Keep the mic open and let voice activity detection cut utterances
+  async setHandsFree(enabled: boolean): Promise<void> {
+    if (enabled) {
+      await this.recorder.startHandsFree();
+      this.context.handsFree = true;
+    } else {
+      // Stopping hands off a half-finished utterance, which still counts
+      this.recorder.stopHandsFree();
+      this.context.handsFree = false;
+    }
+    this.emitStateChange();
+  }
+
+  // Takes effect from the next recording; utterances already in flight
+  // finish either way
+  setPipelined(enabled: boolean): void {
+    this.context.pipelined = enabled;
+    this.emitStateChange();
+  }
+
+  // Host only: switch who translates for the rest of the session
+  async updateTranslationMode(mode: TranslationMode): Promise<void> {
+    if (this.context.sessionId) {
+      await AblyService.setTranslationMode(mode);
+    }
+    this.context.translationMode = mode;
+  }
+
+  private get providers(): ResolvedProviders {
+    return this.registry.resolve(this.context.providers);
   }
 
   updateMode(mode: "just-me" | "talk-together"): void {
@@ -0,0 +1,113 @@
+import type {
+  LatencyBreakdownResponse,
+  LatencyReport,
+  LatencyStage,
+  StageTiming,
+} from "@shared/api";
+import { getAuthHeaders } from "./auth";
+
+export type {
+  LatencyBreakdownResponse,
+  LatencyPercentiles,
+  LatencyStage,
+  StageTiming,
+} from "@shared/api";
+
+// Stage timings for one utterance as it moves through the pipeline
+export class LatencyTrace {
+  readonly correlationId: string;
+  private timings: StageTiming[] = [];
+
+  constructor(correlationId: string = crypto.randomUUID()) {
+    this.correlationId = correlationId;
+  }
+
+  record(stage: LatencyStage, durationMs: number, provider?: string): void {
+    this.timings.push({ stage, durationMs, ...(provider && { provider }) });
+  }
+
+  // Failed calls aren't timed; they'd skew the percentiles
+  async time<T>(
+    stage: LatencyStage,
+    provider: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const started = performance.now();
+    const result = await operation();
+    this.record(stage, performance.now() - started, provider);
+    return result;
+  }
+
+  getTimings(): StageTiming[] {
+    return [...this.timings];
+  }
+}
+
+// Times the operation when there's a trace to record it in
+export function timed<T>(
+  trace: LatencyTrace | undefined,
+  stage: LatencyStage,
+  provider: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  return trace ? trace.time(stage, provider, operation) : operation();
+}
+
+export class LatencyService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
+    const response = await fetch(`/api/analytics${endpoint}`, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+        ...(options.headers || {}),
+      },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Analytics API error: ${response.status} - ${errorText}`);
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json();
+  }
+
+  // Fire and forget; analytics must never hold up or fail a translation
+  report(
+    trace: LatencyTrace,
+    details: Omit<LatencyReport, "correlationId" | "timings"> = {},
+  ): void {
+    const timings = trace.getTimings();
+    if (timings.length === 0) return;
+
+    const report: LatencyReport = {
+      correlationId: trace.correlationId,
+      ...details,
+      timings,
+    };
+    this.makeRequest<void>("/performance", {
+      method: "POST",
+      body: JSON.stringify(report),
+    }).catch((error) => {
+      console.warn("Failed to report latency:", error);
+    });
+  }
+
+  // p50/p95 per stage and provider over the last `hours`
+  async getBreakdown(hours: number = 24): Promise<LatencyBreakdownResponse> {
+    try {
+      return await this.makeRequest<LatencyBreakdownResponse>(
+        `/performance?hours=${hours}`,
+      );
+    } catch (error) {
+      console.error("Failed to get latency breakdown:", error);
+      throw error;
+    }
+  }
+}
+
+export default new LatencyService();
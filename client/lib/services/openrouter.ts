@@ -74,6 +74,43 @@ export class OpenRouterService {
     }
   }
 
+  // Straight LLM translation, used when DeepL is unavailable
+  async translateText(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): Promise<string> {
+    const request: OpenRouterRequest = {
+      model: "anthropic/claude-3.5-sonnet",
+      messages: [
+        {
+          role: "system",
+          content: `You are a professional translator. Translate the user's text${sourceLanguage ? ` from ${sourceLanguage}` : ""} into ${targetLanguage}. Preserve meaning, tone and formality. Return only the translation, no quotes or explanations.`,
+        },
+        {
+          role: "user",
+          content: text,
+        },
+      ],
+      max_tokens: 500,
+      temperature: 0.2,
+    };
+    try {
+      const data = await this.makeRequest<OpenRouterResponse>(
+        "/chat/completions",
+        request,
+      );
+      const translation = data.choices[0]?.message?.content?.trim();
+      if (!translation) {
+        throw new Error("No translation returned from OpenRouter");
+      }
+      return translation;
+    } catch (error) {
+      console.error("OpenRouter translation failed:", error);
+      throw error;
+    }
+  }
+
   async detectLanguage(text: string): Promise<string> {
     const request: OpenRouterRequest = {
       model: "meta-llama/llama-3.1-8b-instruct:free",
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import NeonService from "./neon";
+import { BridgitAIOrchestrator } from "./orchestrator";
+import { ProviderRegistry, type TextToSpeechProvider } from "./providers";
+
+// What the recorder was asked to listen for, so a test can fire it
+const { recorder } = vi.hoisted(() => ({
+  recorder: { listeners: new Map<string, (...args: any[]) => void>() },
+}));
+
+vi.mock("./auth", () => ({ getAuthHeaders: async () => ({}) }));
+
+vi.mock("./ably", () => ({
+  default: {
+    connect: async () => {},
+    isConnected: () => true,
+    createSession: async (sessionId: string) => sessionId,
+    onSessionUpdate: () => () => {},
+    getListeningLanguages: () => ["en"],
+    getTranslationMode: () => "sender",
+    updateParticipantStatus: async () => {},
+  },
+}));
+
+vi.mock("./webrtc", () => ({
+  default: {
+    getAudioDevices: async () => [{ kind: "audioinput" }],
+    joinMesh: () => () => {},
+    onPeerEvent: () => {},
+    onStatusReceived: () => () => {},
+    onTranslationReceived: () => () => {},
+    startAudioStream: async () => {},
+    sendStatus: () => {},
+  },
+}));
+
+vi.mock("./neon", () => ({
+  default: {
+    getActiveSessionCount: async () => 0,
+    getUserSettings: async () => null,
+    createSession: async () => {},
+    addParticipant: async () => {},
+    saveTranslation: vi.fn(async () => {}),
+  },
+}));
+
+vi.mock("./sessions", () => ({
+  default: {
+    createSession: async () => ({ code: "ABCDEF", sessionId: "session_1" }),
+  },
+}));
+
+vi.mock("./deepl", () => ({
+  default: { getUsage: async () => ({}), findGlossary: async () => null },
+}));
+
+vi.mock("./openrouter", () => ({
+  default: { detectLanguage: async () => "en" },
+}));
+
+vi.mock("./latency", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./latency")>()),
+  default: { report: () => {} },
+}));
+
+vi.mock("./recorder", () => ({
+  default: class {
+    on(event: string, callback: (...args: any[]) => void) {
+      recorder.listeners.set(event, callback);
+    }
+    async initialize() {}
+    async startRecording() {}
+    stopRecording() {
+      return new Blob(["audio"]);
+    }
+    async peekRecording() {
+      return null;
+    }
+    async watchForBargeIn() {}
+    stopWatchingForBargeIn() {}
+  },
+}));
+
+// Playback that lasts until it's stopped
+function stoppableTts() {
+  let interrupt: (error: Error) => void = () => {};
+  const tts = {
+    id: "tts",
+    synthesize: async () => new ArrayBuffer(0),
+    play: async () => {},
+    speak: vi.fn(
+      () =>
+        new Promise<void>((_, reject) => {
+          interrupt = reject;
+        }),
+    ),
+    stop: vi.fn(() => interrupt(new Error("Playback stopped"))),
+  } satisfies TextToSpeechProvider;
+  return tts;
+}
+
+function registryWith(tts: TextToSpeechProvider): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  registry.register("stt", {
+    id: "stt",
+    transcribe: async () => ({
+      text: "Good morning",
+      confidence: 1,
+      language: "en",
+      duration: 1,
+      segments: [],
+    }),
+  });
+  registry.register("translation", {
+    id: "translation",
+    translate: async () => ({
+      text: "Buenos días",
+      detectedSourceLanguage: "en",
+      enhanced: false,
+      provider: "translation",
+    }),
+  });
+  registry.register("tts", tts);
+  return registry;
+}
+
+describe("BridgitAIOrchestrator", () => {
+  beforeEach(() => {
+    recorder.listeners.clear();
+    vi.mocked(NeonService.saveTranslation).mockClear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("lets the listener talk over a Talk Together translation", async () => {
+    const tts = stoppableTts();
+    const orchestrator = new BridgitAIOrchestrator({
+      userId: "alice",
+      username: "Alice",
+      defaultSourceLanguage: "en",
+      defaultTargetLanguage: "es",
+      mode: "talk-together",
+      registry: registryWith(tts),
+    });
+    await orchestrator.initialize();
+    await orchestrator.startHostSession();
+
+    await orchestrator.startRecording();
+    await orchestrator.stopRecording();
+    await vi.waitFor(() => expect(tts.speak).toHaveBeenCalled());
+    expect(orchestrator.getCurrentState()).toBe("speaking");
+
+    recorder.listeners.get("bargein")!();
+
+    await vi.waitFor(() =>
+      expect(NeonService.saveTranslation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          translated_text: "Buenos días",
+          partially_heard: true,
+        }),
+      ),
+    );
+    expect(tts.stop).toHaveBeenCalled();
+    expect(orchestrator.getCurrentState()).toBe("recording");
+  });
+
+  it("follows the mode it's switched to", async () => {
+    const orchestrator = new BridgitAIOrchestrator({
+      userId: "alice",
+      username: "Alice",
+      defaultSourceLanguage: "en",
+      defaultTargetLanguage: "es",
+      registry: registryWith(stoppableTts()),
+    });
+    expect(orchestrator.getMode()).toBe("just-me");
+
+    orchestrator.setMode("talk-together");
+
+    expect(orchestrator.getMode()).toBe("talk-together");
+  });
+});
@@ -1,20 +1,31 @@
 import TranslationFSM, { FSMState } from "./fsm";
-import AblyService from "./ably";
+import AblyService, { TranslationMode } from "./ably";
 import WebRTCService from "./webrtc";
+import type { ConnectionQuality } from "./connection-quality";
 import AudioRecorderService from "./recorder";
 import DeepLService from "./deepl";
 import OpenRouterService from "./openrouter";
 import NeonService from "./neon";
+import { ProviderRegistry, ProviderSelection } from "./providers";
 
 export interface OrchestratorConfig {
   userId: string;
   username: string;
   defaultSourceLanguage: string;
   defaultTargetLanguage: string;
+  providers?: ProviderSelection;
+  // Used when hosting; joiners follow the host's choice
+  translationMode?: TranslationMode;
+  // Just Me waits for each translation to be sent; Talk Together speaks
+  // it straight away, and the listener can talk over it
+  mode?: "just-me" | "talk-together";
+  // Lets tests inject fake providers instead of mocking modules
+  registry?: ProviderRegistry;
 }
 
 export interface SessionInfo {
   id: string;
+  joinCode?: string;
   isHost: boolean;
   participantCount: number;
   isActive: boolean;
@@ -35,13 +46,19 @@ export class BridgitAIOrchestrator {
 
   constructor(config: OrchestratorConfig) {
     this.config = config;
-    this.fsm = new TranslationFSM({
-      userId: config.userId,
-      username: config.username,
-      isHost: false,
-      sourceLanguage: config.defaultSourceLanguage,
-      targetLanguage: config.defaultTargetLanguage,
-    });
+    this.fsm = new TranslationFSM(
+      {
+        userId: config.userId,
+        username: config.username,
+        isHost: false,
+        mode: config.mode ?? "just-me",
+        sourceLanguage: config.defaultSourceLanguage,
+        targetLanguage: config.defaultTargetLanguage,
+        providers: config.providers,
+        translationMode: config.translationMode,
+      },
+      config.registry,
+    );
   }
 
   async initialize(): Promise<void> {
@@ -53,6 +70,7 @@ export class BridgitAIOrchestrator {
 
       // Load user settings from database
       await this.loadUserSettings();
+      await this.refreshGlossary();
 
       this.isInitialized = true;
       console.log("Bridgit-AI Orchestrator initialized successfully");
@@ -78,6 +96,7 @@ export class BridgitAIOrchestrator {
   }
 
   private async validateAbly(): Promise<void> {
+    await AblyService.connect();
     if (!AblyService.isConnected()) {
       throw new Error("Ably connection failed");
     }
@@ -132,6 +151,21 @@ export class BridgitAIOrchestrator {
     }
   }
 
+  // Picks the user's glossary for the active language pair, if any
+  async refreshGlossary(): Promise<void> {
+    const { sourceLanguage, targetLanguage } = this.fsm.getContext();
+    try {
+      const glossary = await DeepLService.findGlossary(
+        sourceLanguage,
+        targetLanguage,
+      );
+      this.fsm.updateGlossary(glossary?.glossary_id);
+    } catch (error) {
+      console.warn("Failed to load glossaries:", error);
+      this.fsm.updateGlossary(undefined);
+    }
+  }
+
   // Session Management
   async startHostSession(): Promise<string> {
     if (!this.isInitialized) {
@@ -156,6 +190,18 @@ export class BridgitAIOrchestrator {
     await this.fsm.send("START_JOIN", { sessionId });
   }
 
+  async joinSessionByCode(code: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Orchestrator not initialized");
+    }
+
+    await this.fsm.send("START_JOIN", { code });
+
+    if (this.fsm.getState() !== "connected") {
+      throw new Error(this.fsm.getContext().error || "Failed to join session");
+    }
+  }
+
   async endSession(): Promise<void> {
     await this.fsm.send("DISCONNECT");
   }
@@ -177,6 +223,35 @@ export class BridgitAIOrchestrator {
     await this.fsm.send("STOP_RECORDING");
   }
 
+  // Keep the mic open and translate each utterance as it ends, instead
+  // of startRecording/stopRecording per sentence
+  async setHandsFree(enabled: boolean): Promise<void> {
+    await this.fsm.setHandsFree(enabled);
+  }
+
+  isHandsFree(): boolean {
+    return !!this.fsm.getContext().handsFree;
+  }
+
+  // Record the next utterance while earlier ones are still being
+  // translated or played; outputs keep the order they were spoken in
+  setPipelined(enabled: boolean): void {
+    this.fsm.setPipelined(enabled);
+  }
+
+  isPipelined(): boolean {
+    return !!this.fsm.getContext().pipelined;
+  }
+
+  // Takes effect from the next translation
+  setMode(mode: "just-me" | "talk-together"): void {
+    this.fsm.updateMode(mode);
+  }
+
+  getMode(): "just-me" | "talk-together" {
+    return this.fsm.getContext().mode;
+  }
+
   async translateText(
     text: string,
     targetLanguage?: string,
@@ -192,10 +267,14 @@ export class BridgitAIOrchestrator {
 
     try {
       // Translate with DeepL
+      const glossary = await DeepLService.findGlossary(srcLang, tgtLang).catch(
+        () => null,
+      );
       const translation = await DeepLService.translateText(
         text,
         tgtLang,
         srcLang,
+        { glossaryId: glossary?.glossary_id },
       );
 
       // Enhance with OpenRouter AI
@@ -223,6 +302,7 @@ export class BridgitAIOrchestrator {
     targetLanguage: string,
   ): Promise<void> {
     this.fsm.updateLanguages(sourceLanguage, targetLanguage);
+    await this.refreshGlossary();
 
     // Save to user settings
     try {
@@ -235,6 +315,25 @@ export class BridgitAIOrchestrator {
     }
   }
 
+  // Provider Management
+  setProviders(selection: ProviderSelection): void {
+    this.fsm.updateProviders(selection);
+  }
+
+  getProviders(): ProviderSelection {
+    return { ...this.fsm.getContext().providers };
+  }
+
+  // Whether the speaker or each listener translates. Only the host can
+  // change it mid-session; otherwise it applies to sessions we host.
+  async setTranslationMode(mode: TranslationMode): Promise<void> {
+    await this.fsm.updateTranslationMode(mode);
+  }
+
+  getTranslationMode(): TranslationMode {
+    return this.fsm.getContext().translationMode || "sender";
+  }
+
   async getSupportedLanguages(): Promise<{
     source: Array<{ code: string; name: string }>;
     target: Array<{ code: string; name: string }>;
@@ -313,6 +412,7 @@ export class BridgitAIOrchestrator {
 
     return {
       id: context.sessionId,
+      joinCode: context.joinCode,
       isHost: context.isHost,
       participantCount: context.participants.length,
       isActive: this.fsm.isConnected(),
@@ -344,7 +444,21 @@ export class BridgitAIOrchestrator {
   }
 
   onTranslationReceived(callback: (translation: any) => void): () => void {
-    return AblyService.onTranslationReceived(callback);
+    return WebRTCService.onTranslationReceived(callback);
+  }
+
+  // Per-peer link quality, sampled every couple of seconds; null once the
+  // peer is gone
+  onConnectionQuality(
+    callback: (peerId: string, quality: ConnectionQuality | null) => void,
+  ): () => void {
+    return WebRTCService.onPeerEvent("*", (event) => {
+      if (event.type === "quality") {
+        callback(event.peerId, event.data as ConnectionQuality);
+      } else if (event.type === "disconnected") {
+        callback(event.peerId, null);
+      }
+    });
   }
 
   onConnectionChange(callback: (status: ConnectionStatus) => void): () => void {
@@ -0,0 +1,359 @@
+export type PlaybackFormat = "mp3" | "pcm";
+
+export interface PlayerConfig {
+  format: PlaybackFormat;
+  sampleRate: number; // PCM only
+  minBufferMs: number; // PCM only: smallest slice worth scheduling
+}
+
+export interface PlaybackProgress {
+  bytesReceived: number;
+  bufferedSeconds: number;
+  playedSeconds: number;
+}
+
+export type PlaybackEvent =
+  "start" | "progress" | "pause" | "resume" | "end" | "stop" | "error";
+
+/**
+ * Plays audio while it is still downloading. MP3 goes through MediaSource;
+ * browsers without MP3 MediaSource support get raw PCM, which is scheduled
+ * as back-to-back AudioBufferSourceNodes on a single AudioContext timeline.
+ */
+export class StreamingAudioPlayer {
+  private config: PlayerConfig = {
+    format: StreamingAudioPlayer.preferredFormat(),
+    sampleRate: 24000,
+    minBufferMs: 100,
+  };
+
+  private eventCallbacks: Map<string, (...args: any[]) => void> = new Map();
+  private bytesReceived = 0;
+  private streamEnded = false;
+  private started = false;
+  private finished = false;
+  private resolveFinished!: () => void;
+  private finishedPromise: Promise<void>;
+
+  // MediaSource (mp3) state
+  private audio: HTMLAudioElement | null = null;
+  private mediaSource: MediaSource | null = null;
+  private sourceBuffer: SourceBuffer | null = null;
+  private objectUrl: string | null = null;
+  private pendingChunks: Uint8Array<ArrayBuffer>[] = [];
+  private sourceOpen: Promise<void> | null = null;
+
+  // AudioBufferSourceNode (pcm) state
+  private audioContext: AudioContext | null = null;
+  private scheduledSources: Set<AudioBufferSourceNode> = new Set();
+  private pcmRemainder: Uint8Array = new Uint8Array(0);
+  private nextStartTime = 0;
+  private timelineStart = 0;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config?: Partial<PlayerConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.finishedPromise = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+
+    if (this.config.format === "mp3") {
+      this.setupMediaSource();
+    } else {
+      this.audioContext = new AudioContext({
+        sampleRate: this.config.sampleRate,
+      });
+    }
+  }
+
+  static preferredFormat(): PlaybackFormat {
+    return typeof MediaSource !== "undefined" &&
+      MediaSource.isTypeSupported("audio/mpeg")
+      ? "mp3"
+      : "pcm";
+  }
+
+  getFormat(): PlaybackFormat {
+    return this.config.format;
+  }
+
+  appendChunk(chunk: ArrayBuffer | Uint8Array): void {
+    if (this.finished) return;
+
+    // Copy so the caller is free to reuse its buffer
+    const bytes = new Uint8Array(chunk);
+    this.bytesReceived += bytes.byteLength;
+
+    if (this.config.format === "mp3") {
+      this.pendingChunks.push(bytes);
+      this.flushMediaSource();
+    } else {
+      this.schedulePcm(bytes, false);
+    }
+  }
+
+  endOfStream(): void {
+    if (this.finished) return;
+    this.streamEnded = true;
+
+    if (this.config.format === "mp3") {
+      this.flushMediaSource();
+    } else {
+      this.schedulePcm(new Uint8Array(0), true);
+      this.checkPcmEnded();
+    }
+  }
+
+  // Resolves once playback has ended or been stopped
+  done(): Promise<void> {
+    return this.finishedPromise;
+  }
+
+  pause(): void {
+    if (this.finished || !this.started) return;
+
+    if (this.audio) {
+      this.audio.pause();
+    } else {
+      this.audioContext?.suspend();
+    }
+    this.emitEvent("pause");
+  }
+
+  resume(): void {
+    if (this.finished || !this.started) return;
+
+    if (this.audio) {
+      this.audio.play().catch((error) => this.fail(error));
+    } else {
+      this.audioContext?.resume();
+    }
+    this.emitEvent("resume");
+  }
+
+  stop(): void {
+    if (this.finished) return;
+    this.emitEvent("stop", this.getProgress());
+    this.finish();
+  }
+
+  getProgress(): PlaybackProgress {
+    if (this.audio) {
+      const buffered = this.audio.buffered;
+      return {
+        bytesReceived: this.bytesReceived,
+        bufferedSeconds:
+          buffered.length > 0 ? buffered.end(buffered.length - 1) : 0,
+        playedSeconds: this.audio.currentTime,
+      };
+    }
+
+    const currentTime = this.audioContext?.currentTime ?? 0;
+    const bufferedSeconds = this.started
+      ? this.nextStartTime - this.timelineStart
+      : 0;
+    return {
+      bytesReceived: this.bytesReceived,
+      bufferedSeconds,
+      playedSeconds: this.started
+        ? Math.min(
+            Math.max(currentTime - this.timelineStart, 0),
+            bufferedSeconds,
+          )
+        : 0,
+    };
+  }
+
+  on(event: PlaybackEvent, callback: (...args: any[]) => void): () => void {
+    this.eventCallbacks.set(event, callback);
+    return () => this.eventCallbacks.delete(event);
+  }
+
+  private emitEvent(event: PlaybackEvent, data?: any): void {
+    const callback = this.eventCallbacks.get(event);
+    if (callback) {
+      callback(data);
+    }
+  }
+
+  // MediaSource path
+  private setupMediaSource(): void {
+    this.mediaSource = new MediaSource();
+    this.objectUrl = URL.createObjectURL(this.mediaSource);
+    this.audio = new Audio();
+    this.audio.src = this.objectUrl;
+
+    this.sourceOpen = new Promise((resolve) => {
+      this.mediaSource!.addEventListener(
+        "sourceopen",
+        () => {
+          this.sourceBuffer = this.mediaSource!.addSourceBuffer("audio/mpeg");
+          this.sourceBuffer.mode = "sequence";
+          this.sourceBuffer.addEventListener("updateend", () =>
+            this.flushMediaSource(),
+          );
+          resolve();
+        },
+        { once: true },
+      );
+    });
+
+    this.audio.addEventListener("timeupdate", () =>
+      this.emitEvent("progress", this.getProgress()),
+    );
+    this.audio.addEventListener("ended", () => {
+      this.emitEvent("end", this.getProgress());
+      this.finish();
+    });
+    this.audio.addEventListener("error", () =>
+      this.fail(new Error("Failed to play audio stream")),
+    );
+  }
+
+  private async flushMediaSource(): Promise<void> {
+    await this.sourceOpen;
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer || sourceBuffer.updating || this.finished) return;
+
+    // Start as soon as the first frames are decodable
+    if (!this.started && this.audio!.buffered.length > 0) {
+      this.started = true;
+      this.audio!.play()
+        .then(() => this.emitEvent("start"))
+        .catch((error) => this.fail(error));
+    }
+
+    const next = this.pendingChunks.shift();
+    if (next) {
+      try {
+        sourceBuffer.appendBuffer(next);
+      } catch (error) {
+        this.fail(error);
+      }
+      return;
+    }
+
+    if (this.streamEnded && this.mediaSource!.readyState === "open") {
+      this.mediaSource!.endOfStream();
+
+      // Nothing decodable arrived, so "ended" will never fire
+      if (!this.started) {
+        this.emitEvent("end", this.getProgress());
+        this.finish();
+      }
+    }
+  }
+
+  // PCM path (16-bit little-endian mono)
+  private schedulePcm(bytes: Uint8Array, flush: boolean): void {
+    const context = this.audioContext;
+    if (!context) return;
+
+    const combined = new Uint8Array(this.pcmRemainder.length + bytes.length);
+    combined.set(this.pcmRemainder);
+    combined.set(bytes, this.pcmRemainder.length);
+
+    const minBytes =
+      Math.floor((this.config.sampleRate * this.config.minBufferMs) / 1000) * 2;
+    if (!flush && combined.length < minBytes) {
+      this.pcmRemainder = combined;
+      return;
+    }
+
+    const usable = combined.length - (combined.length % 2);
+    this.pcmRemainder = combined.slice(usable);
+    if (usable === 0) return;
+
+    const samples = new DataView(combined.buffer, 0, usable);
+    const audioBuffer = context.createBuffer(
+      1,
+      usable / 2,
+      this.config.sampleRate,
+    );
+    const channel = audioBuffer.getChannelData(0);
+    for (let i = 0; i < channel.length; i++) {
+      channel[i] = samples.getInt16(i * 2, true) / 0x8000;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(context.destination);
+
+    if (!this.started) {
+      // Small lead so the first slice isn't clipped
+      this.timelineStart = context.currentTime + 0.05;
+      this.nextStartTime = this.timelineStart;
+      this.started = true;
+      this.startProgressTimer();
+      this.emitEvent("start");
+    }
+
+    const startAt = Math.max(this.nextStartTime, context.currentTime);
+    source.start(startAt);
+    this.nextStartTime = startAt + audioBuffer.duration;
+    this.scheduledSources.add(source);
+
+    source.onended = () => {
+      this.scheduledSources.delete(source);
+      this.checkPcmEnded();
+    };
+  }
+
+  private checkPcmEnded(): void {
+    if (
+      this.streamEnded &&
+      this.scheduledSources.size === 0 &&
+      !this.finished
+    ) {
+      this.emitEvent("end", this.getProgress());
+      this.finish();
+    }
+  }
+
+  private startProgressTimer(): void {
+    this.progressTimer = setInterval(
+      () => this.emitEvent("progress", this.getProgress()),
+      250,
+    );
+  }
+
+  private fail(error: unknown): void {
+    if (this.finished) return;
+    this.emitEvent("error", error);
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    if (this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+
+    if (this.audio) {
+      this.audio.pause();
+      this.audio.removeAttribute("src");
+      this.audio.load();
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+    }
+
+    this.scheduledSources.forEach((source) => {
+      source.onended = null;
+      source.stop();
+    });
+    this.scheduledSources.clear();
+    this.audioContext?.close();
+
+    this.pendingChunks = [];
+    this.resolveFinished();
+  }
+}
+
+export default StreamingAudioPlayer;
@@ -0,0 +1,299 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  EnhancedTranslationProvider,
+  FailoverTranslationProvider,
+  ProviderRegistry,
+  TranslationCache,
+  type SpeechToTextProvider,
+  type TextToSpeechProvider,
+  type TranslationProvider,
+  type TranslationResult,
+} from "./providers";
+
+// The real services authenticate through Stack, which tests don't configure
+vi.mock("./auth", () => ({ getAuthHeaders: async () => ({}) }));
+
+function fakeTranslator(
+  id: string,
+  translate: (text: string) => Promise<string> = async (text) =>
+    `${id}:${text}`,
+) {
+  const provider = {
+    id,
+    translate: vi.fn(async (text: string): Promise<TranslationResult> => ({
+      text: await translate(text),
+      detectedSourceLanguage: "en",
+      enhanced: false,
+      provider: id,
+    })),
+  };
+  return provider satisfies TranslationProvider;
+}
+
+const failing = (message: string) => async (): Promise<string> => {
+  throw new Error(message);
+};
+
+const fakeStt: SpeechToTextProvider = {
+  id: "fake-stt",
+  transcribe: async () => ({
+    text: "",
+    confidence: 1,
+    language: "en",
+    duration: 0,
+    segments: [],
+  }),
+};
+
+const fakeTts: TextToSpeechProvider = {
+  id: "fake-tts",
+  synthesize: async () => new ArrayBuffer(0),
+  play: async () => {},
+  speak: async () => {},
+  stop: () => {},
+};
+
+describe("ProviderRegistry", () => {
+  it("uses the first provider registered for a kind as its default", () => {
+    const registry = new ProviderRegistry();
+    const first = fakeTranslator("first");
+    registry.register("translation", first);
+    registry.register("translation", fakeTranslator("second"));
+
+    expect(registry.get("translation")).toBe(first);
+    expect(registry.get("translation", "second").id).toBe("second");
+    expect(registry.list("translation")).toEqual(["first", "second"]);
+  });
+
+  it("switches the default and falls back when it's unregistered", () => {
+    const registry = new ProviderRegistry();
+    registry.register("translation", fakeTranslator("first"));
+    registry.register("translation", fakeTranslator("second"));
+
+    registry.setDefault("translation", "second");
+    expect(registry.get("translation").id).toBe("second");
+
+    registry.unregister("translation", "second");
+    expect(registry.has("translation", "second")).toBe(false);
+    expect(registry.get("translation").id).toBe("first");
+  });
+
+  it("rejects unknown providers", () => {
+    const registry = new ProviderRegistry();
+    registry.register("translation", fakeTranslator("first"));
+
+    expect(() => registry.get("translation", "missing")).toThrow(
+      "Unknown translation provider: missing",
+    );
+    expect(() => registry.get("stt")).toThrow("Unknown stt provider: (none)");
+    expect(() => registry.setDefault("tts", "missing")).toThrow(
+      "Unknown tts provider: missing",
+    );
+  });
+
+  it("resolves a selection, using defaults for unset kinds", () => {
+    const registry = new ProviderRegistry();
+    registry.register("translation", fakeTranslator("first"));
+    registry.register("translation", fakeTranslator("second"));
+    registry.register("stt", fakeStt);
+    registry.register("tts", fakeTts);
+
+    const resolved = registry.resolve({ translation: "second" });
+
+    expect(resolved.translation.id).toBe("second");
+    expect(resolved.stt).toBe(fakeStt);
+    expect(resolved.tts).toBe(fakeTts);
+  });
+});
+
+describe("FailoverTranslationProvider", () => {
+  it("uses the preferred provider while it works", async () => {
+    const primary = fakeTranslator("primary");
+    const backup = fakeTranslator("backup");
+    const failover = new FailoverTranslationProvider([primary, backup]);
+
+    const result = await failover.translate("hello", "de");
+
+    expect(result).toMatchObject({ text: "primary:hello", degraded: false });
+    expect(backup.translate).not.toHaveBeenCalled();
+  });
+
+  it("falls through to the next provider and marks it degraded", async () => {
+    const primary = fakeTranslator("primary", failing("down"));
+    const backup = fakeTranslator("backup");
+    const failover = new FailoverTranslationProvider([primary, backup]);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await failover.translate("hello", "de");
+
+    expect(result).toMatchObject({
+      text: "backup:hello",
+      provider: "backup",
+      degraded: true,
+    });
+  });
+
+  it("treats a slow provider as failed", async () => {
+    const primary = fakeTranslator("primary", () => new Promise(() => {}));
+    const backup = fakeTranslator("backup");
+    const failover = new FailoverTranslationProvider(
+      [primary, backup],
+      undefined,
+      { timeoutMs: 10 },
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await failover.translate("hello", "de");
+
+    expect(result.provider).toBe("backup");
+    expect(failover.getHealth().primary.lastError).toMatch(/timed out/);
+  });
+
+  it("stops calling a provider once its circuit opens", async () => {
+    const primary = fakeTranslator("primary", failing("down"));
+    const backup = fakeTranslator("backup");
+    const failover = new FailoverTranslationProvider(
+      [primary, backup],
+      undefined,
+      { failureThreshold: 2, cooldownMs: 60000 },
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    for (let i = 0; i < 4; i++) {
+      await failover.translate(`hello ${i}`, "de");
+    }
+
+    expect(primary.translate).toHaveBeenCalledTimes(2);
+    expect(backup.translate).toHaveBeenCalledTimes(4);
+    expect(failover.getHealth().primary.state).toBe("open");
+    expect(failover.getHealth().backup.state).toBe("closed");
+  });
+
+  it("doesn't open the circuit over failed interim translations", async () => {
+    const primary = fakeTranslator("primary", failing("429"));
+    const backup = fakeTranslator("backup");
+    const failover = new FailoverTranslationProvider([primary, backup]);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    for (let i = 0; i < 5; i++) {
+      await failover.translate(`hello ${i}`, "de", "en", { interim: true });
+    }
+
+    expect(primary.translate).toHaveBeenCalledTimes(5);
+    expect(failover.getHealth().primary).toMatchObject({
+      state: "closed",
+      totalFailures: 0,
+    });
+  });
+
+  it("replays a cached translation when every provider is down", async () => {
+    let up = true;
+    const primary = fakeTranslator("primary", async (text) => {
+      if (!up) throw new Error("down");
+      return `primary:${text}`;
+    });
+    const failover = new FailoverTranslationProvider(
+      [primary],
+      new TranslationCache(),
+      { failureThreshold: 10 },
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await failover.translate("Hello", "de", "en");
+    up = false;
+
+    const result = await failover.translate("hello ", "DE", "EN");
+    expect(result).toMatchObject({
+      text: "primary:Hello",
+      provider: "cache",
+      degraded: true,
+    });
+    await expect(failover.translate("goodbye", "de", "en")).rejects.toThrow(
+      "All translation providers failed (primary: down)",
+    );
+  });
+});
+
+describe("EnhancedTranslationProvider", () => {
+  it("polishes the translation", async () => {
+    const enhance = vi.fn(async (_: string, translated: string) =>
+      translated.toUpperCase(),
+    );
+    const provider = new EnhancedTranslationProvider(
+      fakeTranslator("deepl"),
+      enhance,
+    );
+
+    const result = await provider.translate("hello", "de", "en");
+
+    expect(result).toMatchObject({ text: "DEEPL:HELLO", enhanced: true });
+    expect(enhance).toHaveBeenCalledWith("hello", "deepl:hello", "en", "de");
+  });
+
+  it("keeps the translation when the enhancer is too slow", async () => {
+    const deepl = fakeTranslator("deepl");
+    const failover = new FailoverTranslationProvider([deepl], undefined, {
+      failureThreshold: 1,
+    });
+    const provider = new EnhancedTranslationProvider(
+      failover,
+      () => new Promise(() => {}),
+      10,
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await provider.translate("hello", "de");
+
+    expect(result).toMatchObject({ text: "deepl:hello", enhanced: false });
+    // A slow LLM says nothing about DeepL's health
+    expect(failover.getHealth().deepl).toMatchObject({
+      state: "closed",
+      totalFailures: 0,
+    });
+  });
+
+  it("leaves interim and already polished translations alone", async () => {
+    const enhance = vi.fn(async () => "enhanced");
+    const llm = {
+      id: "llm",
+      translate: async (): Promise<TranslationResult> => ({
+        text: "done",
+        detectedSourceLanguage: "en",
+        enhanced: true,
+        provider: "llm",
+      }),
+    };
+
+    await new EnhancedTranslationProvider(
+      fakeTranslator("deepl"),
+      enhance,
+    ).translate("hello", "de", "en", { interim: true });
+    await new EnhancedTranslationProvider(llm, enhance).translate(
+      "hello",
+      "de",
+    );
+
+    expect(enhance).not.toHaveBeenCalled();
+  });
+});
+
+describe("TranslationCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new TranslationCache(2);
+    const result = (text: string): TranslationResult => ({
+      text,
+      detectedSourceLanguage: "en",
+      enhanced: false,
+      provider: "fake",
+    });
+
+    cache.set("a", "de", "en", result("A"));
+    cache.set("b", "de", "en", result("B"));
+    cache.get("a", "de", "en");
+    cache.set("c", "de", "en", result("C"));
+
+    expect(cache.get("a", "de", "en")?.text).toBe("A");
+    expect(cache.get("b", "de", "en")).toBeUndefined();
+    expect(cache.get("c", "de", "en")?.text).toBe("C");
+  });
+});
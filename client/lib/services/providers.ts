@@ -0,0 +1,464 @@
+import DeepLService from "./deepl";
+import OpenRouterService from "./openrouter";
+import ElevenLabsService from "./elevenlabs";
+import STTService, { STTOptions, STTResult } from "./stt";
+import { timed, type LatencyTrace } from "./latency";
+import type { TranslationFormality } from "@shared/api";
+import CircuitBreaker, {
+  CircuitBreakerConfig,
+  CircuitHealth,
+  CircuitOpenError,
+  withTimeout,
+} from "./circuit-breaker";
+
+export interface TranslationResult {
+  text: string;
+  detectedSourceLanguage: string;
+  enhanced: boolean;
+  provider: string;
+  // Served by a fallback rather than the preferred provider
+  degraded?: boolean;
+  // Set when the text came from translation memory
+  memoryMatch?: "exact";
+}
+
+// Anything that changes the output must be part of the memory key
+export interface TranslationOptions {
+  formality?: TranslationFormality;
+  // DeepL glossaries are immutable, so the id doubles as a version
+  glossaryId?: string;
+  // Captions for a sentence still being spoken: skip the slow polish,
+  // and don't remember half a sentence
+  interim?: boolean;
+  // Times this utterance's translation stages
+  trace?: LatencyTrace;
+}
+
+export interface TTSOptions {
+  voiceId?: string;
+  language?: string;
+  // Times this utterance's synthesis and playback
+  trace?: LatencyTrace;
+}
+
+export interface TranslationProvider {
+  readonly id: string;
+  translate(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+    options?: TranslationOptions,
+  ): Promise<TranslationResult>;
+}
+
+export interface SpeechToTextProvider {
+  readonly id: string;
+  transcribe(audio: Blob, options?: STTOptions): Promise<STTResult>;
+}
+
+export interface TextToSpeechProvider {
+  readonly id: string;
+  // Whole utterance, for callers that hold on to the audio
+  synthesize(text: string, options?: TTSOptions): Promise<ArrayBuffer>;
+  // Play previously synthesized audio
+  play(audio: ArrayBuffer): Promise<void>;
+  // Synthesize and play, streaming where the engine supports it
+  speak(text: string, options?: TTSOptions): Promise<void>;
+  stop(): void;
+}
+
+export type ProviderKind = "translation" | "stt" | "tts";
+
+interface ProviderTypes {
+  translation: TranslationProvider;
+  stt: SpeechToTextProvider;
+  tts: TextToSpeechProvider;
+}
+
+// Provider ids chosen per user or per session; unset kinds use the default
+export type ProviderSelection = Partial<Record<ProviderKind, string>>;
+
+export interface ResolvedProviders {
+  translation: TranslationProvider;
+  stt: SpeechToTextProvider;
+  tts: TextToSpeechProvider;
+}
+
+export class ProviderRegistry {
+  private providers: {
+    [K in ProviderKind]: Map<string, ProviderTypes[K]>;
+  } = {
+    translation: new Map(),
+    stt: new Map(),
+    tts: new Map(),
+  };
+  private defaults: Partial<Record<ProviderKind, string>> = {};
+
+  // The first provider registered for a kind becomes its default
+  register<K extends ProviderKind>(kind: K, provider: ProviderTypes[K]): void {
+    const providers = this.providers[kind] as Map<string, ProviderTypes[K]>;
+    providers.set(provider.id, provider);
+    if (!this.defaults[kind]) {
+      this.defaults[kind] = provider.id;
+    }
+  }
+
+  unregister(kind: ProviderKind, id: string): void {
+    this.providers[kind].delete(id);
+    if (this.defaults[kind] === id) {
+      this.defaults[kind] = this.providers[kind].keys().next().value;
+    }
+  }
+
+  setDefault(kind: ProviderKind, id: string): void {
+    if (!this.providers[kind].has(id)) {
+      throw new Error(`Unknown ${kind} provider: ${id}`);
+    }
+    this.defaults[kind] = id;
+  }
+
+  get<K extends ProviderKind>(kind: K, id?: string): ProviderTypes[K] {
+    const providerId = id || this.defaults[kind];
+    const provider = providerId
+      ? (this.providers[kind] as Map<string, ProviderTypes[K]>).get(providerId)
+      : undefined;
+    if (!provider) {
+      throw new Error(`Unknown ${kind} provider: ${providerId ?? "(none)"}`);
+    }
+    return provider;
+  }
+
+  has(kind: ProviderKind, id: string): boolean {
+    return this.providers[kind].has(id);
+  }
+
+  list(kind: ProviderKind): string[] {
+    return Array.from(this.providers[kind].keys());
+  }
+
+  resolve(selection: ProviderSelection = {}): ResolvedProviders {
+    return {
+      translation: this.get("translation", selection.translation),
+      stt: this.get("stt", selection.stt),
+      tts: this.get("tts", selection.tts),
+    };
+  }
+}
+
+// Built-in adapters over the existing service singletons
+
+// The server answers repeated phrases from translation memory before
+// spending DeepL characters, and remembers DeepL's answers for next time
+export const deeplTranslationProvider: TranslationProvider = {
+  id: "deepl",
+  async translate(text, targetLanguage, sourceLanguage, options = {}) {
+    const started = performance.now();
+    const translation = await DeepLService.translateText(
+      text,
+      targetLanguage,
+      sourceLanguage,
+      {
+        formality: options.formality,
+        glossaryId: options.glossaryId,
+        interim: options.interim,
+      },
+    );
+    options.trace?.record(
+      "translate",
+      performance.now() - started,
+      translation.fromMemory ? "memory" : "deepl",
+    );
+
+    return {
+      text: translation.text,
+      detectedSourceLanguage: translation.detectedSourceLanguage,
+      enhanced: false,
+      provider: "deepl",
+      ...(translation.fromMemory && { memoryMatch: "exact" as const }),
+    };
+  },
+};
+
+export const openRouterTranslationProvider: TranslationProvider = {
+  id: "openrouter",
+  async translate(text, targetLanguage, sourceLanguage, options = {}) {
+    const translated = await timed(
+      options.trace,
+      "translate",
+      "openrouter",
+      () =>
+        OpenRouterService.translateText(text, targetLanguage, sourceLanguage),
+    );
+    return {
+      text: translated,
+      detectedSourceLanguage: sourceLanguage || "",
+      enhanced: true,
+      provider: "openrouter",
+    };
+  },
+};
+
+// Recent translations, replayed when every live provider is down
+export class TranslationCache {
+  private entries: Map<string, TranslationResult> = new Map();
+
+  constructor(private maxEntries: number = 500) {}
+
+  private key(text: string, targetLanguage: string, sourceLanguage?: string) {
+    return [
+      (sourceLanguage || "auto").toLowerCase(),
+      targetLanguage.toLowerCase(),
+      text.trim().toLowerCase(),
+    ].join("|");
+  }
+
+  get(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+  ): TranslationResult | undefined {
+    const key = this.key(text, targetLanguage, sourceLanguage);
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Refresh recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage: string | undefined,
+    result: TranslationResult,
+  ): void {
+    const key = this.key(text, targetLanguage, sourceLanguage);
+    this.entries.delete(key);
+    this.entries.set(key, result);
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Tries each provider in order behind its own circuit breaker, then falls
+ * back to a cached translation, so an outage lowers quality instead of
+ * dropping the utterance.
+ */
+export class FailoverTranslationProvider implements TranslationProvider {
+  readonly id = "failover";
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor(
+    private chain: TranslationProvider[],
+    private cache: TranslationCache = new TranslationCache(),
+    breakerConfig?: Partial<CircuitBreakerConfig>,
+  ) {
+    for (const provider of chain) {
+      this.breakers.set(
+        provider.id,
+        new CircuitBreaker(provider.id, breakerConfig),
+      );
+    }
+  }
+
+  async translate(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+    options?: TranslationOptions,
+  ): Promise<TranslationResult> {
+    const failures: string[] = [];
+
+    for (const [index, provider] of this.chain.entries()) {
+      const breaker = this.breakers.get(provider.id)!;
+      const call = () =>
+        provider.translate(text, targetLanguage, sourceLanguage, options);
+      try {
+        // Captions ask again every few seconds and a missed one is fine,
+        // so their failures (rate limits, mostly) don't open the circuit
+        const result = await (options?.interim
+          ? breaker.executeUntracked(call)
+          : breaker.execute(call));
+        this.cache.set(text, targetLanguage, sourceLanguage, result);
+        return { ...result, degraded: index > 0 };
+      } catch (error) {
+        failures.push(`${provider.id}: ${(error as Error).message}`);
+        if (!(error instanceof CircuitOpenError)) {
+          console.warn(`Translation provider ${provider.id} failed:`, error);
+        }
+      }
+    }
+
+    const cached = this.cache.get(text, targetLanguage, sourceLanguage);
+    if (cached) {
+      return { ...cached, provider: "cache", degraded: true };
+    }
+
+    throw new Error(
+      `All translation providers failed (${failures.join("; ")})`,
+    );
+  }
+
+  getHealth(): Record<string, CircuitHealth> {
+    const health: Record<string, CircuitHealth> = {};
+    this.breakers.forEach((breaker, id) => {
+      health[id] = breaker.getHealth();
+    });
+    return health;
+  }
+}
+
+export const translationFailover = new FailoverTranslationProvider([
+  deeplTranslationProvider,
+  openRouterTranslationProvider,
+]);
+
+export type TranslationEnhancer = (
+  originalText: string,
+  translatedText: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+) => Promise<string>;
+
+const openRouterEnhancer: TranslationEnhancer = (...args) =>
+  OpenRouterService.enhanceTranslation(...args);
+
+/**
+ * Polishes machine translations with an LLM. Runs outside the failover
+ * chain with its own deadline, so a slow LLM costs polish rather than
+ * tripping the translation provider's circuit breaker.
+ */
+export class EnhancedTranslationProvider implements TranslationProvider {
+  readonly id: string;
+
+  constructor(
+    private inner: TranslationProvider,
+    private enhance: TranslationEnhancer = openRouterEnhancer,
+    private timeoutMs: number = 4000,
+  ) {
+    this.id = inner.id;
+  }
+
+  async translate(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+    options: TranslationOptions = {},
+  ): Promise<TranslationResult> {
+    const result = await this.inner.translate(
+      text,
+      targetLanguage,
+      sourceLanguage,
+      options,
+    );
+    if (options.interim || result.enhanced) return result;
+
+    try {
+      const enhancedText = await withTimeout(
+        timed(options.trace, "enhance", "openrouter", () =>
+          this.enhance(
+            text,
+            result.text,
+            sourceLanguage || result.detectedSourceLanguage,
+            targetLanguage,
+          ),
+        ),
+        this.timeoutMs,
+        "Translation enhancement",
+      );
+      return {
+        ...result,
+        text: enhancedText,
+        enhanced: enhancedText !== result.text,
+      };
+    } catch (error) {
+      // The unpolished translation is still a translation
+      console.warn("Translation enhancement skipped:", error);
+      return result;
+    }
+  }
+}
+
+export const enhancedTranslationFailover = new EnhancedTranslationProvider(
+  translationFailover,
+);
+
+export const whisperSpeechProvider: SpeechToTextProvider = {
+  id: "whisper",
+  transcribe(audio, options) {
+    return STTService.transcribeAudio(audio, options);
+  },
+};
+
+const ELEVENLABS_DEFAULT_VOICE = "21m00Tcm4TlvDq8ikWAM";
+const ELEVENLABS_VOICE_SETTINGS = { stability: 0.5, similarityBoost: 0.75 };
+
+export const elevenLabsSpeechProvider: TextToSpeechProvider = {
+  id: "elevenlabs",
+  // Not streamed, so the first byte comes with the whole clip
+  synthesize(text, options = {}) {
+    return timed(options.trace, "tts_first_byte", "elevenlabs", () =>
+      ElevenLabsService.textToSpeech(
+        text,
+        options.voiceId || ELEVENLABS_DEFAULT_VOICE,
+        ELEVENLABS_VOICE_SETTINGS,
+      ),
+    );
+  },
+  play(audio) {
+    return ElevenLabsService.playAudioBuffer(audio);
+  },
+  async speak(text, options = {}) {
+    const started = performance.now();
+    let firstByte = 0;
+    await ElevenLabsService.streamAndPlay(
+      text,
+      options.voiceId || ELEVENLABS_DEFAULT_VOICE,
+      {
+        ...ELEVENLABS_VOICE_SETTINGS,
+        onFirstChunk: () => {
+          firstByte = performance.now();
+          options.trace?.record(
+            "tts_first_byte",
+            firstByte - started,
+            "elevenlabs",
+          );
+        },
+      },
+    );
+    if (firstByte) {
+      options.trace?.record(
+        "playback",
+        performance.now() - firstByte,
+        "elevenlabs",
+      );
+    }
+  },
+  stop() {
+    ElevenLabsService.stopPlayback();
+  },
+};
+
+export function createDefaultRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  registry.register("translation", enhancedTranslationFailover);
+  registry.register(
+    "translation",
+    new EnhancedTranslationProvider(deeplTranslationProvider),
+  );
+  registry.register("translation", openRouterTranslationProvider);
+  registry.register("stt", whisperSpeechProvider);
+  registry.register("tts", elevenLabsSpeechProvider);
+  return registry;
+}
+
+export default createDefaultRegistry();
@@ -0,0 +1,160 @@
+import Ably from "ably";
+import { getAuthHeaders } from "./auth";
+import type {
+  PresenceMember,
+  RealtimeChannel,
+  RealtimeMessage,
+  RealtimeTransport,
+} from "./realtime";
+
+const AUTH_URL = "/api/ably/token";
+// Renew before expiry so we never hand Ably a stale bearer token
+const REAUTHORIZE_MARGIN_MS = 60 * 1000;
+
+function toMessage(message: Ably.Message): RealtimeMessage {
+  return {
+    name: message.name || "",
+    data: message.data,
+    clientId: message.clientId,
+    timestamp: message.timestamp,
+  };
+}
+
+function toMember(member: Ably.PresenceMessage): PresenceMember {
+  return {
+    clientId: member.clientId,
+    // Ably reports members gone during a sync as "absent"
+    action: member.action === "absent" ? "leave" : member.action,
+    data: member.data,
+  };
+}
+
+class AblyChannel implements RealtimeChannel {
+  constructor(private channel: Ably.RealtimeChannel) {}
+
+  get name(): string {
+    return this.channel.name;
+  }
+
+  async publish(name: string, data: unknown): Promise<void> {
+    await this.channel.publish(name, data);
+  }
+
+  subscribe(
+    name: string,
+    callback: (message: RealtimeMessage) => void,
+  ): () => void {
+    const listener = (message: Ably.Message) => callback(toMessage(message));
+    this.channel.subscribe(name, listener);
+    return () => this.channel.unsubscribe(name, listener);
+  }
+
+  async history(limit: number): Promise<RealtimeMessage[]> {
+    const page = await this.channel.history({ limit });
+    return page.items.map(toMessage);
+  }
+
+  presence = {
+    enter: async (data: unknown) => {
+      await this.channel.presence.enter(data);
+    },
+    update: async (data: unknown) => {
+      await this.channel.presence.update(data);
+    },
+    leave: async () => {
+      await this.channel.presence.leave();
+    },
+    get: async () => (await this.channel.presence.get()).map(toMember),
+    subscribe: (callback: (member: PresenceMember) => void) => {
+      const listener = (member: Ably.PresenceMessage) =>
+        callback(toMember(member));
+      this.channel.presence.subscribe(listener);
+      return () => this.channel.presence.unsubscribe(listener);
+    },
+  };
+
+  onResync(callback: () => void): () => void {
+    // A resumed attach means nothing was missed
+    const listener = (change: Ably.ChannelStateChange) => {
+      if (change.current === "attached" && !change.resumed) callback();
+    };
+    this.channel.on("attached", listener);
+    return () => this.channel.off("attached", listener);
+  }
+
+  async detach(): Promise<void> {
+    await this.channel.detach();
+  }
+}
+
+export class AblyTransport implements RealtimeTransport {
+  readonly name = "ably";
+  private client: Ably.Realtime;
+  private clientId?: string;
+  private sessionId?: string;
+  private reauthorizeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    // Tokens come from our server, scoped to the channels of the session
+    // we're in. Connecting waits until we have a bearer token to send.
+    this.client = new Ably.Realtime({
+      authUrl: AUTH_URL,
+      autoConnect: false,
+    });
+  }
+
+  async connect(sessionId?: string): Promise<void> {
+    if (!this.clientId || sessionId !== this.sessionId) {
+      await this.authorize(sessionId);
+    }
+    await this.client.connection.whenState("connected");
+  }
+
+  // Fetch a token for the given session (or none) and upgrade the
+  // connection to it. Ably reuses these options when it renews.
+  private async authorize(sessionId?: string): Promise<void> {
+    const tokenDetails = await this.client.auth.authorize(undefined, {
+      authUrl: AUTH_URL,
+      authHeaders: await getAuthHeaders(),
+      authParams: sessionId ? { sessionId } : {},
+    });
+
+    // The server pins clientId to the signed-in user
+    this.clientId = this.client.auth.clientId || undefined;
+    this.sessionId = sessionId;
+    this.scheduleReauthorize(tokenDetails.expires);
+  }
+
+  private scheduleReauthorize(expires: number): void {
+    if (this.reauthorizeTimer) clearTimeout(this.reauthorizeTimer);
+
+    this.reauthorizeTimer = setTimeout(
+      () => {
+        this.authorize(this.sessionId).catch((error) => {
+          console.error("Failed to renew Ably token:", error);
+        });
+      },
+      Math.max(expires - Date.now() - REAUTHORIZE_MARGIN_MS, 0),
+    );
+  }
+
+  getClientId(): string | undefined {
+    return this.clientId;
+  }
+
+  channel(name: string): RealtimeChannel {
+    return new AblyChannel(this.client.channels.get(name));
+  }
+
+  isConnected(): boolean {
+    return this.client.connection.state === "connected";
+  }
+
+  close(): void {
+    if (this.reauthorizeTimer) {
+      clearTimeout(this.reauthorizeTimer);
+      this.reauthorizeTimer = null;
+    }
+    this.client.close();
+  }
+}
@@ -0,0 +1,316 @@
+import type { RealtimeRequest, RealtimeServerFrame } from "@shared/api";
+import { getAuthHeaders } from "./auth";
+import type {
+  PresenceMember,
+  RealtimeChannel,
+  RealtimeMessage,
+  RealtimeTransport,
+} from "./realtime";
+
+const REALTIME_PATH = "/api/realtime";
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+class WebSocketChannel implements RealtimeChannel {
+  private listeners: Map<string, Set<(message: RealtimeMessage) => void>> =
+    new Map();
+  private presenceListeners: Set<(member: PresenceMember) => void> = new Set();
+  private resyncListeners: Set<() => void> = new Set();
+  // What we last entered with, so a reconnect can re-enter
+  private presenceData?: unknown;
+  private attached = false;
+
+  constructor(
+    readonly name: string,
+    private transport: WebSocketTransport,
+  ) {}
+
+  async publish(name: string, data: unknown): Promise<void> {
+    await this.transport.request({
+      action: "publish",
+      channel: this.name,
+      name,
+      data,
+    });
+  }
+
+  subscribe(
+    name: string,
+    callback: (message: RealtimeMessage) => void,
+  ): () => void {
+    if (!this.listeners.has(name)) this.listeners.set(name, new Set());
+    this.listeners.get(name)!.add(callback);
+    this.attach();
+
+    return () => {
+      this.listeners.get(name)?.delete(callback);
+    };
+  }
+
+  async history(limit: number): Promise<RealtimeMessage[]> {
+    return this.transport.request({
+      action: "history",
+      channel: this.name,
+      limit,
+    });
+  }
+
+  presence = {
+    enter: async (data: unknown) => {
+      this.presenceData = data;
+      await this.sendPresence("enter", data);
+    },
+    update: async (data: unknown) => {
+      this.presenceData = data;
+      await this.sendPresence("update", data);
+    },
+    leave: async () => {
+      this.presenceData = undefined;
+      await this.sendPresence("leave");
+    },
+    get: async (): Promise<PresenceMember[]> =>
+      this.transport.request({ action: "presence.get", channel: this.name }),
+    subscribe: (callback: (member: PresenceMember) => void) => {
+      this.presenceListeners.add(callback);
+      this.attach();
+      return () => {
+        this.presenceListeners.delete(callback);
+      };
+    },
+  };
+
+  onResync(callback: () => void): () => void {
+    this.resyncListeners.add(callback);
+    return () => {
+      this.resyncListeners.delete(callback);
+    };
+  }
+
+  async detach(): Promise<void> {
+    this.listeners.clear();
+    this.presenceListeners.clear();
+    this.resyncListeners.clear();
+    this.presenceData = undefined;
+    if (this.attached) {
+      this.attached = false;
+      await this.transport.request({ action: "detach", channel: this.name });
+    }
+  }
+
+  dispatch(frame: RealtimeServerFrame): void {
+    if (frame.action === "message") {
+      this.listeners
+        .get(frame.message.name)
+        ?.forEach((callback) => callback(frame.message));
+    } else if (frame.action === "presence") {
+      this.presenceListeners.forEach((callback) => callback(frame.member));
+    }
+  }
+
+  // The server forgets everything about a closed socket, so attach and
+  // presence have to be replayed before listeners can trust their state
+  async restore(): Promise<void> {
+    if (this.attached) {
+      this.attached = false;
+      await this.attach();
+    }
+    if (this.presenceData !== undefined) {
+      await this.sendPresence("enter", this.presenceData);
+    }
+    this.resyncListeners.forEach((callback) => callback());
+  }
+
+  private async attach(): Promise<void> {
+    if (this.attached) return;
+    this.attached = true;
+
+    try {
+      await this.transport.request({ action: "attach", channel: this.name });
+    } catch (error) {
+      this.attached = false;
+      console.error(`Failed to attach to ${this.name}:`, error);
+    }
+  }
+
+  private async sendPresence(
+    presence: "enter" | "update" | "leave",
+    data?: unknown,
+  ): Promise<void> {
+    await this.transport.request({
+      action: "presence",
+      channel: this.name,
+      presence,
+      data,
+    });
+  }
+}
+
+// RealtimeTransport on our own WebSocket server, for on-prem deployments
+// and for integration tests that shouldn't depend on Ably
+export class WebSocketTransport implements RealtimeTransport {
+  readonly name = "websocket";
+  private socket?: WebSocket;
+  private clientId?: string;
+  private connecting?: Promise<void>;
+  private channels: Map<string, WebSocketChannel> = new Map();
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextRequestId = 1;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasConnected = false;
+  private closed = false;
+
+  constructor(private url?: string) {}
+
+  // Channel access is checked by the server on every request against
+  // session membership, so there's nothing session-specific to do here
+  async connect(_sessionId?: string): Promise<void> {
+    this.closed = false;
+    if (this.isConnected()) return;
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    await this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    const url = new URL(this.url || REALTIME_PATH, globalThis.location?.href);
+    url.protocol = url.protocol.replace(/^http/, "ws");
+
+    // Browsers can't set headers on a WebSocket upgrade
+    const { Authorization } = await getAuthHeaders();
+    if (Authorization) {
+      url.searchParams.set("token", Authorization.replace("Bearer ", ""));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url.toString());
+      this.socket = socket;
+
+      socket.onmessage = (event) => {
+        const frame = JSON.parse(event.data) as RealtimeServerFrame;
+        if (frame.action === "connected") {
+          const reconnected = this.hasConnected;
+          this.clientId = frame.clientId;
+          this.hasConnected = true;
+          this.reconnectAttempts = 0;
+          resolve();
+          if (reconnected) this.restoreChannels();
+          return;
+        }
+        this.handleFrame(frame);
+      };
+
+      socket.onclose = () => {
+        reject(new Error("Realtime connection closed"));
+        this.handleClose(socket);
+      };
+    });
+  }
+
+  private handleFrame(frame: RealtimeServerFrame): void {
+    switch (frame.action) {
+      case "reply": {
+        this.pending.get(frame.id)?.resolve(frame.result);
+        this.pending.delete(frame.id);
+        break;
+      }
+      case "error": {
+        const error = new Error(
+          `Realtime error: ${frame.status} - ${frame.error}`,
+        );
+        if (frame.id !== undefined) {
+          this.pending.get(frame.id)?.reject(error);
+          this.pending.delete(frame.id);
+        } else {
+          console.error(error.message);
+        }
+        break;
+      }
+      case "message":
+      case "presence":
+        this.channels.get(frame.channel)?.dispatch(frame);
+        break;
+    }
+  }
+
+  private handleClose(socket: WebSocket): void {
+    if (this.socket !== socket) return;
+    this.socket = undefined;
+
+    this.pending.forEach(({ reject }) =>
+      reject(new Error("Realtime connection closed")),
+    );
+    this.pending.clear();
+
+    if (!this.closed) this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS,
+    );
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        console.warn("Realtime reconnect failed:", error);
+      });
+    }, delay);
+  }
+
+  private async restoreChannels(): Promise<void> {
+    for (const channel of this.channels.values()) {
+      try {
+        await channel.restore();
+      } catch (error) {
+        console.error(`Failed to restore ${channel.name}:`, error);
+      }
+    }
+  }
+
+  async request<T = any>(frame: RealtimeRequest): Promise<T> {
+    await this.connect();
+
+    const id = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.socket!.send(JSON.stringify({ ...frame, id }));
+    });
+  }
+
+  getClientId(): string | undefined {
+    return this.clientId;
+  }
+
+  channel(name: string): RealtimeChannel {
+    let channel = this.channels.get(name);
+    if (!channel) {
+      channel = new WebSocketChannel(name, this);
+      this.channels.set(name, channel);
+    }
+    return channel;
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN && !!this.clientId;
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+  }
+}
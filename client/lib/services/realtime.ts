@@ -0,0 +1,62 @@
+import type { PresenceMember, RealtimeMessage } from "@shared/api";
+import { AblyTransport } from "./realtime-ably";
+import { WebSocketTransport } from "./realtime-websocket";
+
+export type {
+  PresenceAction,
+  PresenceMember,
+  RealtimeMessage,
+} from "@shared/api";
+
+export interface RealtimePresence {
+  enter(data: unknown): Promise<void>;
+  update(data: unknown): Promise<void>;
+  leave(): Promise<void>;
+  get(): Promise<PresenceMember[]>;
+  subscribe(callback: (member: PresenceMember) => void): () => void;
+}
+
+export interface RealtimeChannel {
+  readonly name: string;
+  publish(name: string, data: unknown): Promise<void>;
+  subscribe(
+    name: string,
+    callback: (message: RealtimeMessage) => void,
+  ): () => void;
+  // Most recent first
+  history(limit: number): Promise<RealtimeMessage[]>;
+  presence: RealtimePresence;
+  // Called when the channel comes back after missing events, e.g. a
+  // long disconnect, so callers can re-read presence
+  onResync(callback: () => void): () => void;
+  detach(): Promise<void>;
+}
+
+// What session, translation and signaling code needs from a pub/sub
+// backend. AblyService is written against this, not Ably itself.
+export interface RealtimeTransport {
+  readonly name: string;
+  // Connect with access to one session's channels, or none
+  connect(sessionId?: string): Promise<void>;
+  getClientId(): string | undefined;
+  channel(name: string): RealtimeChannel;
+  isConnected(): boolean;
+  close(): void;
+}
+
+export type RealtimeTransportKind = "ably" | "websocket";
+
+// VITE_REALTIME_TRANSPORT=websocket runs on our own server instead of Ably
+export function createRealtimeTransport(
+  kind: RealtimeTransportKind = import.meta.env.VITE_REALTIME_TRANSPORT ||
+    "ably",
+): RealtimeTransport {
+  switch (kind) {
+    case "websocket":
+      return new WebSocketTransport();
+    case "ably":
+      return new AblyTransport();
+    default:
+      throw new Error(`Unknown realtime transport: ${kind}`);
+  }
+}
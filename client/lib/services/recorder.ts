@@ -1,3 +1,5 @@
+import VoiceActivityDetector, { VADConfig } from "./vad";
+
 export interface RecorderConfig {
   sampleRate: number;
   channels: number;
@@ -7,6 +9,9 @@ export interface RecorderConfig {
   maxDuration: number; // in seconds
   silenceThreshold: number; // 0-100
   silenceDetectionTime: number; // in ms
+  preRollMs: number; // hands-free: audio kept from just before speech starts
+  bargeInThreshold: number; // 0-100; well above silence so echo doesn't count
+  bargeInTime: number; // in ms of sustained speech before it counts
 }
 
 export interface AudioChunk {
@@ -32,6 +37,14 @@ export class AudioRecorderService {
   private recordedChunks: Blob[] = [];
   private startTime: number = 0;
   private animationId: number | null = null;
+  private bargeInWatchId: number | null = null;
+
+  // Hands-free segmentation
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private vad: VoiceActivityDetector | null = null;
+  private preRoll: Float32Array[] = [];
+  private utterance: Float32Array[] | null = null;
 
   private config: RecorderConfig = {
     sampleRate: 48000,
@@ -42,6 +55,9 @@ export class AudioRecorderService {
     maxDuration: 300, // 5 minutes
     silenceThreshold: 5,
     silenceDetectionTime: 2000, // 2 seconds
+    preRollMs: 300,
+    bargeInThreshold: 20,
+    bargeInTime: 250,
   };
 
   private state: RecorderState = {
@@ -87,12 +103,12 @@ export class AudioRecorderService {
       sampleRate: this.config.sampleRate,
     });
 
-    const source = this.audioContext.createMediaStreamSource(this.stream);
+    this.source = this.audioContext.createMediaStreamSource(this.stream);
     this.analyser = this.audioContext.createAnalyser();
     this.analyser.fftSize = this.config.bufferSize;
     this.analyser.smoothingTimeConstant = 0.8;
 
-    source.connect(this.analyser);
+    this.source.connect(this.analyser);
   }
 
   private setupMediaRecorder(): void {
@@ -196,6 +212,115 @@ export class AudioRecorderService {
     }
   }
 
+  // Hands-free: keep the microphone open and cut it into utterances with
+  // voice activity detection. Emits "speechstart" when someone starts
+  // talking and "utterance" with a WAV Blob when they stop. MediaRecorder
+  // output can't be split mid-stream, so this works on raw PCM.
+  async startHandsFree(vadConfig?: Partial<VADConfig>): Promise<void> {
+    if (this.processor) return;
+    if (!this.stream) {
+      await this.initialize();
+    }
+
+    const context = this.audioContext!;
+    this.vad = new VoiceActivityDetector(vadConfig);
+    this.preRoll = [];
+    this.utterance = null;
+
+    const frameSize = 2048;
+    const spectrum = new Float32Array(this.analyser!.frequencyBinCount);
+    // Enough for the pre-roll plus the voiced frames it takes to decide
+    // speech has started
+    const preRollMs = this.config.preRollMs + this.vad.getConfig().minSpeechMs;
+    const preRollFrames = Math.ceil(
+      (preRollMs / 1000) * (context.sampleRate / frameSize),
+    );
+
+    this.processor = context.createScriptProcessor(frameSize, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      // The buffer is reused for the next frame
+      const samples = new Float32Array(event.inputBuffer.getChannelData(0));
+      this.analyser!.getFloatFrequencyData(spectrum);
+
+      const boundary = this.vad!.process({
+        samples,
+        spectrum,
+        sampleRate: context.sampleRate,
+      });
+
+      if (this.utterance) {
+        this.utterance.push(samples);
+      } else {
+        this.preRoll.push(samples);
+        if (this.preRoll.length > preRollFrames) this.preRoll.shift();
+      }
+
+      if (boundary === "speechstart") {
+        this.utterance = this.preRoll;
+        this.preRoll = [];
+        this.emitEvent("speechstart");
+      } else if (boundary === "speechend") {
+        this.flushUtterance();
+      }
+    };
+
+    this.source!.connect(this.processor);
+    // Script processors only run while connected to an output
+    this.processor.connect(context.destination);
+  }
+
+  stopHandsFree(): void {
+    if (!this.processor) return;
+
+    this.processor.onaudioprocess = null;
+    this.source?.disconnect(this.processor);
+    this.processor.disconnect();
+    this.processor = null;
+
+    // Whatever was being said when hands-free was turned off still counts
+    this.flushUtterance();
+    this.vad = null;
+    this.preRoll = [];
+  }
+
+  isHandsFree(): boolean {
+    return this.processor !== null;
+  }
+
+  private flushUtterance(): void {
+    const frames = this.utterance;
+    this.utterance = null;
+    if (!frames?.length || !this.audioContext) return;
+
+    this.emitEvent("utterance", this.encodeFrames(frames));
+  }
+
+  private encodeFrames(frames: Float32Array[], fromMs = 0): Blob {
+    const sampleRate = this.audioContext!.sampleRate;
+    const length = frames.reduce((total, frame) => total + frame.length, 0);
+    const samples = new Float32Array(length);
+    let offset = 0;
+    for (const frame of frames) {
+      samples.set(frame, offset);
+      offset += frame.length;
+    }
+    const start = Math.floor((fromMs / 1000) * sampleRate);
+    return encodeWav([samples.subarray(start)], sampleRate);
+  }
+
+  // What has been said so far, from fromMs on, for partial transcripts
+  // while recording continues: the current utterance in hands-free mode,
+  // otherwise the chunks MediaRecorder has delivered
+  async peekRecording(fromMs = 0): Promise<Blob | null> {
+    if (this.utterance?.length) {
+      return this.encodeFrames(this.utterance, fromMs);
+    }
+    if (this.state.isRecording && this.recordedChunks.length) {
+      return sliceRecording(this.getRecording(), fromMs);
+    }
+    return null;
+  }
+
   private getRecording(): Blob {
     return new Blob(this.recordedChunks, {
       type: this.mediaRecorder?.mimeType || "audio/webm",
@@ -213,15 +338,7 @@ export class AudioRecorderService {
     const monitor = () => {
       if (!this.state.isRecording) return;
 
-      this.analyser!.getByteFrequencyData(dataArray);
-
-      // Calculate audio level (RMS)
-      let sum = 0;
-      for (let i = 0; i < bufferLength; i++) {
-        sum += dataArray[i] * dataArray[i];
-      }
-      const rms = Math.sqrt(sum / bufferLength);
-      this.state.audioLevel = (rms / 255) * 100;
+      this.state.audioLevel = this.measureLevel(dataArray);
 
       // Update duration
       this.state.duration = this.getDuration();
@@ -260,6 +377,57 @@ export class AudioRecorderService {
     monitor();
   }
 
+  // Audio level (RMS of the spectrum), 0-100
+  private measureLevel(dataArray: Uint8Array<ArrayBuffer>): number {
+    this.analyser!.getByteFrequencyData(dataArray);
+
+    let sum = 0;
+    for (let i = 0; i < dataArray.length; i++) {
+      sum += dataArray[i] * dataArray[i];
+    }
+    const rms = Math.sqrt(sum / dataArray.length);
+    return (rms / 255) * 100;
+  }
+
+  // Listen while a translation plays and emit "bargein" once someone
+  // talks over it. Only fires once; call again for the next playback.
+  async watchForBargeIn(): Promise<void> {
+    if (this.bargeInWatchId !== null) return;
+    // A closed context's analyser only ever reports silence
+    if (!this.analyser || this.audioContext?.state === "closed") {
+      await this.initialize();
+    }
+
+    const dataArray = new Uint8Array(this.analyser!.frequencyBinCount);
+    let speechStart = 0;
+
+    const watch = () => {
+      const level = this.measureLevel(dataArray);
+      const now = Date.now();
+
+      if (level < this.config.bargeInThreshold) {
+        speechStart = 0;
+      } else if (speechStart === 0) {
+        speechStart = now;
+      } else if (now - speechStart >= this.config.bargeInTime) {
+        this.bargeInWatchId = null;
+        this.emitEvent("bargein", level);
+        return;
+      }
+
+      this.bargeInWatchId = requestAnimationFrame(watch);
+    };
+
+    this.bargeInWatchId = requestAnimationFrame(watch);
+  }
+
+  stopWatchingForBargeIn(): void {
+    if (this.bargeInWatchId !== null) {
+      cancelAnimationFrame(this.bargeInWatchId);
+      this.bargeInWatchId = null;
+    }
+  }
+
   private stopMonitoring(): void {
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
@@ -280,52 +448,11 @@ export class AudioRecorderService {
     const audioContext = new AudioContext();
     const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
 
-    const length = audioBuffer.length;
-    const sampleRate = audioBuffer.sampleRate;
-    const channels = audioBuffer.numberOfChannels;
-
-    // Create WAV file
-    const buffer = new ArrayBuffer(44 + length * channels * 2);
-    const view = new DataView(buffer);
-
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-
-    writeString(0, "RIFF");
-    view.setUint32(4, 36 + length * channels * 2, true);
-    writeString(8, "WAVE");
-    writeString(12, "fmt ");
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, channels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * channels * 2, true);
-    view.setUint16(32, channels * 2, true);
-    view.setUint16(34, 16, true);
-    writeString(36, "data");
-    view.setUint32(40, length * channels * 2, true);
-
-    // Convert samples
-    const offset = 44;
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < channels; channel++) {
-        const sample = Math.max(
-          -1,
-          Math.min(1, audioBuffer.getChannelData(channel)[i]),
-        );
-        view.setInt16(
-          offset + (i * channels + channel) * 2,
-          sample < 0 ? sample * 0x8000 : sample * 0x7fff,
-          true,
-        );
-      }
-    }
-
-    return new Blob([buffer], { type: "audio/wav" });
+    const channelData = Array.from(
+      { length: audioBuffer.numberOfChannels },
+      (_, channel) => audioBuffer.getChannelData(channel),
+    );
+    return encodeWav(channelData, audioBuffer.sampleRate);
   }
 
   on(event: string, callback: (...args: any[]) => void): () => void {
@@ -352,10 +479,14 @@ export class AudioRecorderService {
 
   async switchDevice(deviceId: string): Promise<void> {
     const wasRecording = this.state.isRecording;
+    const handsFreeConfig = this.vad?.getConfig();
+    const wasWatching = this.bargeInWatchId !== null;
 
     if (wasRecording) {
       this.stopRecording();
     }
+    this.stopHandsFree();
+    this.stopWatchingForBargeIn();
 
     if (this.stream) {
       this.stream.getTracks().forEach((track) => track.stop());
@@ -379,10 +510,21 @@ export class AudioRecorderService {
     if (wasRecording) {
       await this.startRecording();
     }
+    if (handsFreeConfig) {
+      await this.startHandsFree(handsFreeConfig);
+    }
+    if (wasWatching) {
+      await this.watchForBargeIn();
+    }
   }
 
+  // Releases the microphone. Listeners stay registered (they're removed
+  // with the function on() returns), and the next recording, hands-free
+  // session or barge-in watch opens the microphone again.
   destroy(): void {
     this.stopRecording();
+    this.stopHandsFree();
+    this.stopWatchingForBargeIn();
     this.stopMonitoring();
 
     if (this.stream) {
@@ -393,8 +535,81 @@ export class AudioRecorderService {
       this.audioContext.close();
     }
 
-    this.eventCallbacks.clear();
+    this.mediaRecorder = null;
+    this.source = null;
+    this.analyser = null;
+    this.audioContext = null;
+    this.stream = null;
   }
 }
 
+// A compressed recording from fromMs on, as WAV. Recordings still in
+// progress decode fine; they just end early.
+export async function sliceRecording(
+  recording: Blob,
+  fromMs: number,
+): Promise<Blob> {
+  if (fromMs <= 0) return recording;
+
+  const audioContext = new AudioContext();
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(
+      await recording.arrayBuffer(),
+    );
+    const start = Math.floor((fromMs / 1000) * audioBuffer.sampleRate);
+    const channelData = Array.from(
+      { length: audioBuffer.numberOfChannels },
+      (_, channel) => audioBuffer.getChannelData(channel).subarray(start),
+    );
+    return encodeWav(channelData, audioBuffer.sampleRate);
+  } finally {
+    audioContext.close();
+  }
+}
+
+// 16-bit PCM WAV from per-channel samples in -1..1
+function encodeWav(channelData: Float32Array[], sampleRate: number): Blob {
+  const channels = channelData.length;
+  const length = channelData[0]?.length ?? 0;
+
+  const buffer = new ArrayBuffer(44 + length * channels * 2);
+  const view = new DataView(buffer);
+
+  // WAV header
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + length * channels * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, length * channels * 2, true);
+
+  // Convert samples
+  const offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
+      view.setInt16(
+        offset + (i * channels + channel) * 2,
+        sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+        true,
+      );
+    }
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
 export default AudioRecorderService;
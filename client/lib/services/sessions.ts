@@ -0,0 +1,74 @@
+import type { CreateJoinCodeRequest, JoinCodeSession } from "@shared/api";
+import { getAuthHeaders } from "./auth";
+
+export class SessionRegistryService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
+    const response = await fetch(`/api/sessions${endpoint}`, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+        ...(options.headers || {}),
+      },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Session API error: ${response.status} - ${errorText}`);
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json();
+  }
+
+  async createSession(
+    options: CreateJoinCodeRequest = {},
+  ): Promise<JoinCodeSession> {
+    try {
+      return await this.makeRequest<JoinCodeSession>("", {
+        method: "POST",
+        body: JSON.stringify(options),
+      });
+    } catch (error) {
+      console.error("Failed to create session code:", error);
+      throw error;
+    }
+  }
+
+  async resolveCode(code: string): Promise<JoinCodeSession> {
+    return this.makeRequest<JoinCodeSession>(`/${this.normalizeCode(code)}`);
+  }
+
+  async joinSession(code: string): Promise<JoinCodeSession> {
+    try {
+      return await this.makeRequest<JoinCodeSession>(
+        `/${this.normalizeCode(code)}/join`,
+        { method: "POST" },
+      );
+    } catch (error) {
+      console.error("Failed to join session:", error);
+      throw error;
+    }
+  }
+
+  async leaveSession(code: string): Promise<void> {
+    await this.makeRequest<void>(`/${this.normalizeCode(code)}/leave`, {
+      method: "POST",
+    });
+  }
+
+  async endSession(code: string): Promise<void> {
+    await this.makeRequest<void>(`/${this.normalizeCode(code)}`, {
+      method: "DELETE",
+    });
+  }
+
+  private normalizeCode(code: string): string {
+    return encodeURIComponent(code.trim().toUpperCase());
+  }
+}
+
+export default new SessionRegistryService();
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  agreedPrefixLength,
+  StreamingTranscriber,
+  type InterimTranscript,
+  type PartialTranscript,
+} from "./streaming-transcription";
+
+const words = (text: string) => text.split(" ");
+
+describe("agreedPrefixLength", () => {
+  it("counts the words two hypotheses start with", () => {
+    expect(
+      agreedPrefixLength(words("the cat sat"), words("the cat sat on")),
+    ).toBe(3);
+    expect(agreedPrefixLength(words("the cat sat"), words("the hat sat"))).toBe(
+      1,
+    );
+    expect(agreedPrefixLength(words("the cat"), words("a cat"))).toBe(0);
+  });
+
+  it("ignores case and trailing punctuation", () => {
+    expect(
+      agreedPrefixLength(words("Hello, world."), words("hello world again")),
+    ).toBe(2);
+  });
+
+  it("keeps apostrophes and inner punctuation", () => {
+    expect(agreedPrefixLength(words("it's"), words("its"))).toBe(0);
+    expect(agreedPrefixLength(words("e.g. this"), words("e.g this"))).toBe(2);
+  });
+
+  it("handles empty hypotheses", () => {
+    expect(agreedPrefixLength([], words("hello"))).toBe(0);
+    expect(agreedPrefixLength(words("hello"), [])).toBe(0);
+  });
+});
+
+describe("StreamingTranscriber", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Answers each pass with the next transcript
+  function transcriber(transcripts: PartialTranscript[]) {
+    const source = {
+      getAudio: vi.fn(async () => new Blob(["audio"])),
+      transcribe: vi.fn(async () => transcripts.shift() ?? { text: "" }),
+      translate: vi.fn(async (text: string) => text.toUpperCase()),
+    };
+    const interims: InterimTranscript[] = [];
+    const streaming = new StreamingTranscriber(source, {
+      intervalMs: 1000,
+      windowMs: 1500,
+    });
+    streaming.start((interim) => interims.push(interim));
+    return { source, interims, streaming };
+  }
+
+  it("translates words once two passes agree on them", async () => {
+    const { source, interims, streaming } = transcriber([
+      { text: "good morning every" },
+      { text: "good morning everyone" },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    streaming.stop();
+
+    expect(interims.at(-1)).toEqual({
+      text: "good morning everyone",
+      stableText: "good morning",
+      translatedText: "GOOD MORNING",
+    });
+    expect(source.translate).toHaveBeenCalledTimes(1);
+  });
+
+  it("slides the window past settled phrases", async () => {
+    const sentence = "the first phrase then the second";
+    const { source, interims, streaming } = transcriber([
+      { text: sentence, segments: [{ text: sentence, end: 5 }] },
+      {
+        text: `${sentence} and more`,
+        segments: [
+          { text: "the first phrase", end: 2.5 },
+          { text: " then the second and more", end: 6 },
+        ],
+      },
+      { text: "then the second and then" },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(source.getAudio).toHaveBeenLastCalledWith(0);
+
+    // The first phrase settled; the next pass starts after it
+    await vi.advanceTimersByTimeAsync(1000);
+    streaming.stop();
+
+    expect(source.getAudio).toHaveBeenLastCalledWith(2500);
+    expect(interims.at(-1)).toMatchObject({
+      text: "the first phrase then the second and then",
+      stableText: "the first phrase then the second and",
+    });
+  });
+
+  it("keeps going when a pass fails", async () => {
+    const { source, interims, streaming } = transcriber([]);
+    source.transcribe
+      .mockRejectedValueOnce(new Error("STT API error: 429"))
+      .mockResolvedValueOnce({ text: "hello" });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await vi.advanceTimersByTimeAsync(2000);
+    streaming.stop();
+
+    expect(interims.at(-1)?.text).toBe("hello");
+  });
+});
@@ -0,0 +1,233 @@
+export interface InterimTranscript {
+  text: string; // latest hypothesis; later words may still change
+  stableText: string; // prefix two hypotheses in a row agreed on; only grows
+  translatedText?: string; // translation of stableText, once there is one
+}
+
+export interface StreamingTranscriptionConfig {
+  intervalMs: number; // pause between re-transcriptions
+  windowMs: number; // audio past this is dropped once its words settle
+  maxDurationMs: number; // partials stop here; the final transcript doesn't
+}
+
+export interface PartialTranscript {
+  text: string;
+  // Phrase timings, in seconds from the start of the audio transcribed
+  segments?: { text: string; end: number }[];
+}
+
+export interface StreamingTranscriptionSource {
+  // What was recorded from fromMs into the recording on, or null before
+  // there's anything
+  getAudio(fromMs: number): Promise<Blob | null>;
+  transcribe(audio: Blob): Promise<PartialTranscript>;
+  // Null when there's nothing to show beyond the transcript
+  translate?(text: string): Promise<string | null>;
+}
+
+const splitWords = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/) : [];
+};
+
+// Length of the word prefix two hypotheses share, ignoring case and
+// trailing punctuation, which Whisper often revises
+export function agreedPrefixLength(a: string[], b: string[]): number {
+  const normalize = (word: string) =>
+    word.toLowerCase().replace(/[^\p{L}\p{N}']+$/u, "");
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    normalize(a[length]) === normalize(b[length])
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Live captions on top of a batch STT engine. While recording, the audio
+ * so far is transcribed again every intervalMs. Words two hypotheses in a
+ * row agree on are treated as stable and translated as they settle, so
+ * listeners can follow along before the final transcript arrives.
+ *
+ * Once the audio outgrows windowMs, whole phrases whose words are stable
+ * are committed and later passes start after them, so each pass sends at
+ * most about a window of audio rather than the whole recording.
+ */
+export class StreamingTranscriber {
+  private config: StreamingTranscriptionConfig = {
+    intervalMs: 2000,
+    windowMs: 8000,
+    maxDurationMs: 30000,
+  };
+
+  private running = false;
+  // Bumped on every start so a pass still in flight from before is dropped
+  private generation = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private startTime = 0;
+  // Start of the audio each pass transcribes, and the words before it
+  private windowStartMs = 0;
+  private committedWords: string[] = [];
+  private previousWords: string[] = [];
+  private stableWords: string[] = [];
+  private latest: InterimTranscript = { text: "", stableText: "" };
+  private translating = false;
+  private translatedFor = "";
+
+  constructor(
+    private source: StreamingTranscriptionSource,
+    config?: Partial<StreamingTranscriptionConfig>,
+  ) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  start(onInterim: (interim: InterimTranscript) => void): void {
+    this.stop();
+    this.running = true;
+    const generation = ++this.generation;
+    const current = () => this.running && generation === this.generation;
+    this.startTime = Date.now();
+    this.windowStartMs = 0;
+    this.committedWords = [];
+    this.previousWords = [];
+    this.stableWords = [];
+    this.latest = { text: "", stableText: "" };
+    this.translating = false;
+    this.translatedFor = "";
+
+    const emit = (changes: Partial<InterimTranscript>) => {
+      if (!current()) return;
+      this.latest = { ...this.latest, ...changes };
+      onInterim(this.latest);
+    };
+
+    const tick = async () => {
+      this.timer = null;
+      if (!current()) return;
+      if (Date.now() - this.startTime > this.config.maxDurationMs) return;
+
+      try {
+        const audioMs = Date.now() - this.startTime - this.windowStartMs;
+        const audio = await this.source.getAudio(this.windowStartMs);
+        if (current() && audio && audio.size > 0) {
+          const transcript = await this.source.transcribe(audio);
+          if (current()) this.update(transcript, audioMs, emit);
+        }
+      } catch (error) {
+        // A missed partial is fine; the final transcript still comes
+        console.warn("Partial transcription failed:", error);
+      }
+
+      if (current()) {
+        this.timer = setTimeout(tick, this.config.intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(tick, this.config.intervalMs);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private update(
+    transcript: PartialTranscript,
+    audioMs: number,
+    emit: (changes: Partial<InterimTranscript>) => void,
+  ): void {
+    const words = splitWords(transcript.text);
+    const agreed = agreedPrefixLength(this.previousWords, words);
+    this.previousWords = words;
+
+    // Stable words are never taken back, even if a later pass disagrees
+    if (agreed > this.stableWords.length) {
+      this.stableWords = words.slice(0, agreed);
+    }
+
+    const text = [...this.committedWords, ...words].join(" ");
+    const stableText = [...this.committedWords, ...this.stableWords].join(" ");
+    if (text !== this.latest.text || stableText !== this.latest.stableText) {
+      emit({ text, stableText });
+    }
+    this.translateStable(emit);
+
+    if (audioMs > this.config.windowMs) {
+      this.slideWindow(words, transcript.segments ?? []);
+    }
+  }
+
+  // Commit the leading phrases that are stable in this pass too and move
+  // the window's start to the end of the last of them
+  private slideWindow(
+    words: string[],
+    segments: NonNullable<PartialTranscript["segments"]>,
+  ): void {
+    const settled = Math.min(
+      this.stableWords.length,
+      agreedPrefixLength(this.stableWords, words),
+    );
+
+    let count = 0;
+    let endMs = 0;
+    for (const segment of segments) {
+      const length = splitWords(segment.text).length;
+      if (count + length > settled) break;
+      count += length;
+      endMs = segment.end * 1000;
+    }
+    if (count === 0 || endMs <= 0) return;
+
+    this.committedWords.push(...this.stableWords.slice(0, count));
+    this.stableWords = this.stableWords.slice(count);
+    this.previousWords = this.previousWords.slice(count);
+    this.windowStartMs += endMs;
+  }
+
+  // One translation at a time, always of the newest stable prefix. The
+  // whole prefix is translated rather than the new words so word order
+  // can change across the sentence.
+  private async translateStable(
+    emit: (changes: Partial<InterimTranscript>) => void,
+  ): Promise<void> {
+    const stableText = this.latest.stableText;
+    if (
+      !this.source.translate ||
+      this.translating ||
+      !stableText ||
+      stableText === this.translatedFor
+    ) {
+      return;
+    }
+
+    const generation = this.generation;
+    this.translating = true;
+    this.translatedFor = stableText;
+    let translatedText: string | null = null;
+    try {
+      translatedText = await this.source.translate(stableText);
+    } catch (error) {
+      console.warn("Partial translation failed:", error);
+    }
+
+    // Restarted meanwhile; this belongs to the previous recording
+    if (generation !== this.generation) return;
+    this.translating = false;
+    if (translatedText !== null) emit({ translatedText });
+
+    // The prefix grew while we were translating
+    if (this.running && this.latest.stableText !== this.translatedFor) {
+      await this.translateStable(emit);
+    }
+  }
+}
+
+export default StreamingTranscriber;
@@ -1,17 +1,22 @@
+import type { STTResult } from "@shared/api";
+import { getAuthHeaders } from "./auth";
 import OpenRouterService from "./openrouter";
-
-export interface STTResult {
-  text: string;
-  confidence: number;
-  language: string;
-  duration: number;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-    confidence: number;
-  }>;
-}
+import { sliceRecording } from "./recorder";
+import StreamingTranscriber, {
+  InterimTranscript,
+} from "./streaming-transcription";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/ogg": "ogg",
+  "audio/flac": "flac",
+};
+
+export type { STTResult, STTSegment, STTWord } from "@shared/api";
 
 export interface STTOptions {
   language?: string;
@@ -20,115 +25,78 @@ export interface STTOptions {
   maxRetries?: number;
 }
 
+export interface InterimOptions {
+  onInterim: (interim: InterimTranscript) => void;
+  // Translates the stable part of the transcript as it settles
+  translate?: (text: string) => Promise<string | null>;
+}
+
 export class SpeechToTextService {
   constructor() {}
 
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
+    const response = await fetch(`/api/stt${endpoint}`, {
+      ...options,
+      headers: {
+        ...(await getAuthHeaders()),
+        ...(options.headers || {}),
+      },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`STT API error: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  }
+
   async transcribeAudio(
     audioBlob: Blob,
     options: STTOptions = {},
   ): Promise<STTResult> {
-    try {
-      // Convert audio blob to base64 for processing
-      const arrayBuffer = await audioBlob.arrayBuffer();
-      const base64Audio = this.arrayBufferToBase64(arrayBuffer);
-
-      // Use OpenRouter for advanced speech recognition
-      const transcription = await this.transcribeWithOpenRouter(
-        base64Audio,
-        audioBlob.type,
-        options,
-      );
-
-      return transcription;
-    } catch (error) {
-      console.error("STT transcription failed:", error);
-      throw error;
+    // Whisper servers sniff the container from the file extension
+    const mimeType = audioBlob.type.split(";")[0];
+    const formData = new FormData();
+    formData.append(
+      "file",
+      audioBlob,
+      `audio.${FILE_EXTENSIONS[mimeType] || "webm"}`,
+    );
+    if (options.language) {
+      formData.append("language", options.language);
     }
-  }
-
-  private async transcribeWithOpenRouter(
-    base64Audio: string,
-    mimeType: string,
-    options: STTOptions,
-  ): Promise<STTResult> {
-    try {
-      const prompt = `Transcribe the following audio data to text. The audio is in ${mimeType} format.
-      
-      ${options.language ? `Expected language: ${options.language}` : "Detect language automatically"}
-      ${options.enablePunctuation ? "Include proper punctuation." : ""}
-      ${options.enableWordTimestamps ? "Include word-level timestamps if possible." : ""}
-      
-      Return the result in JSON format with the following structure:
-      {
-        "text": "transcribed text here",
-        "confidence": 0.95,
-        "language": "detected or specified language code",
-        "duration": "audio duration in seconds"
-      }
-      
-      Audio data (base64): ${base64Audio.substring(0, 1000)}...`;
-
-      const response = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${import.meta.env.VITE_OPENROUTER_API_KEY}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": window.location.origin,
-            "X-Title": "Bridgit-AI Speech Recognition",
-          },
-          body: JSON.stringify({
-            model: "openai/whisper-large-v3",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "You are a professional speech-to-text transcription AI. Provide accurate transcriptions with confidence scores.",
-              },
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-            max_tokens: 1000,
-            temperature: 0.1,
-          }),
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`OpenRouter STT failed: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const resultText = data.choices[0]?.message?.content;
-
-      if (!resultText) {
-        throw new Error("No transcription result from OpenRouter");
-      }
-
-      // Try to parse JSON response
+    formData.append(
+      "enablePunctuation",
+      String(options.enablePunctuation ?? true),
+    );
+    formData.append(
+      "enableWordTimestamps",
+      String(options.enableWordTimestamps ?? false),
+    );
+
+    const maxRetries = options.maxRetries ?? 0;
+    for (let attempt = 0; ; attempt++) {
       try {
-        const parsed = JSON.parse(resultText);
-        return {
-          text: parsed.text || resultText,
-          confidence: parsed.confidence || 0.8,
-          language: parsed.language || options.language || "en",
-          duration: parsed.duration || 0,
-        };
-      } catch (parseError) {
-        // If not JSON, treat as plain text transcription
-        return {
-          text: resultText.trim(),
-          confidence: 0.8,
-          language: options.language || "en",
-          duration: 0,
-        };
+        return await this.makeRequest<STTResult>("/transcribe", {
+          method: "POST",
+          body: formData,
+        });
+      } catch (error) {
+        // Client errors won't get better on retry
+        const retryable = !/STT API error: 4\d\d/.test(
+          (error as Error).message,
+        );
+        if (attempt < maxRetries && retryable) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, 500 * 2 ** attempt),
+          );
+          continue;
+        }
+        console.error("STT transcription failed:", error);
+        throw error;
       }
-    } catch (error) {
-      console.error("OpenRouter STT failed:", error);
-      throw error;
     }
   }
 
@@ -137,15 +105,30 @@ export class SpeechToTextService {
 
   // Real-time streaming STT (for live microphone input)
   // REMOVED: startRealtimeTranscription
-  // Use recordAndTranscribe instead
+  // Use recordAndTranscribe instead; pass interim for live captions
   async recordAndTranscribe(
     onResult: (result: Partial<STTResult>) => void,
     onError: (error: Error) => void,
     options: STTOptions = {},
+    interim?: InterimOptions,
   ): Promise<() => void> {
     let mediaRecorder: MediaRecorder | null = null;
     let audioChunks: Blob[] = [];
     let stopped = false;
+    const transcriber = interim
+      ? new StreamingTranscriber({
+          getAudio: async (fromMs) =>
+            audioChunks.length
+              ? sliceRecording(
+                  new Blob(audioChunks, { type: mediaRecorder?.mimeType }),
+                  fromMs,
+                )
+              : null,
+          transcribe: (audio) =>
+            this.transcribeAudio(audio, { ...options, maxRetries: 0 }),
+          translate: interim.translate,
+        })
+      : null;
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -160,18 +143,25 @@ export class SpeechToTextService {
       mediaRecorder.onstop = async () => {
         if (stopped) return;
         stopped = true;
-        const audioBlob = new Blob(audioChunks, { type: 'audio/webm' });
+        transcriber?.stop();
+        const audioBlob = new Blob(audioChunks, { type: "audio/webm" });
         try {
-          const wavBlob = await this.convertAudioFormat(audioBlob, 'wav');
+          const wavBlob = await this.convertAudioFormat(audioBlob, "wav");
           const result = await this.transcribeAudio(wavBlob, options);
           onResult(result);
         } catch (err) {
           onError(err instanceof Error ? err : new Error(String(err)));
         }
-        stream.getTracks().forEach(track => track.stop());
+        stream.getTracks().forEach((track) => track.stop());
       };
 
-      mediaRecorder.start();
+      if (transcriber) {
+        // Partials need the audio while recording is still going
+        mediaRecorder.start(250);
+        transcriber.start(interim!.onInterim);
+      } else {
+        mediaRecorder.start();
+      }
     } catch (err) {
       onError(err instanceof Error ? err : new Error(String(err)));
       return () => {};
@@ -179,7 +169,7 @@ export class SpeechToTextService {
 
     // Return stop function
     return () => {
-      if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+      if (mediaRecorder && mediaRecorder.state !== "inactive") {
         mediaRecorder.stop();
       }
     };
@@ -258,15 +248,6 @@ export class SpeechToTextService {
   }
 
   // Helper methods
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = "";
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
   async convertAudioFormat(
     audioBlob: Blob,
     targetFormat: "wav" | "mp3" | "flac" = "wav",
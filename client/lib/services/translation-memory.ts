@@ -0,0 +1,60 @@
+import type {
+  TranslationMemoryLookupRequest,
+  TranslationMemoryMatch,
+  TranslationMemoryMetrics,
+} from "@shared/api";
+import { getAuthHeaders } from "./auth";
+
+export type {
+  TranslationMemoryMatch,
+  TranslationMemoryMetrics,
+} from "@shared/api";
+
+export class TranslationMemoryService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
+    const response = await fetch(`/api/translation-memory${endpoint}`, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+        ...(options.headers || {}),
+      },
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Translation memory API error: ${response.status} - ${errorText}`,
+      );
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json();
+  }
+
+  async lookup(
+    request: TranslationMemoryLookupRequest,
+  ): Promise<TranslationMemoryMatch | null> {
+    try {
+      return await this.makeRequest<TranslationMemoryMatch>("/lookup", {
+        method: "POST",
+        body: JSON.stringify(request),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes(" 404 ")) {
+        return null;
+      }
+      console.error("Translation memory lookup failed:", error);
+      throw error;
+    }
+  }
+
+  async getMetrics(): Promise<TranslationMemoryMetrics> {
+    return this.makeRequest<TranslationMemoryMetrics>("/metrics");
+  }
+}
+
+export default new TranslationMemoryService();
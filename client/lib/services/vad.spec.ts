@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { VoiceActivityDetector, type VADEvent, type VADFrame } from "./vad";
+
+const SAMPLE_RATE = 48000;
+const FRAME_SIZE = 2048; // about 43ms
+const BINS = 1024;
+
+// A 1 kHz tone: one strong bin in the speech band
+const toneSpectrum = new Float32Array(BINS).fill(-140);
+toneSpectrum[Math.round(1000 / (SAMPLE_RATE / 2 / BINS))] = 0;
+// White noise: the same power everywhere
+const noiseSpectrum = new Float32Array(BINS).fill(-80);
+
+function frame(levelDb: number, spectrum: Float32Array): VADFrame {
+  return {
+    samples: new Float32Array(FRAME_SIZE).fill(Math.pow(10, levelDb / 20)),
+    spectrum,
+    sampleRate: SAMPLE_RATE,
+  };
+}
+
+const tone = (levelDb: number) => frame(levelDb, toneSpectrum);
+const noise = (levelDb: number) => frame(levelDb, noiseSpectrum);
+const silence = () => frame(-90, noiseSpectrum);
+
+// Feeds the frame for about ms milliseconds, collecting boundaries
+function feed(
+  vad: VoiceActivityDetector,
+  input: VADFrame,
+  ms: number,
+): VADEvent[] {
+  const frames = Math.ceil(ms / ((FRAME_SIZE / SAMPLE_RATE) * 1000));
+  const events: VADEvent[] = [];
+  for (let i = 0; i < frames; i++) {
+    const event = vad.process(input);
+    if (event) events.push(event);
+  }
+  return events;
+}
+
+describe("VoiceActivityDetector", () => {
+  it("starts an utterance after enough speech and ends it after a pause", () => {
+    const vad = new VoiceActivityDetector();
+    feed(vad, silence(), 500);
+
+    expect(feed(vad, tone(-20), 100)).toEqual([]);
+    expect(feed(vad, tone(-20), 100)).toEqual(["speechstart"]);
+    expect(vad.isSpeaking()).toBe(true);
+
+    // A pause between words doesn't end it; a longer one does
+    expect(feed(vad, silence(), 400)).toEqual([]);
+    feed(vad, tone(-20), 200);
+    expect(feed(vad, silence(), 800)).toEqual(["speechend"]);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it("ignores short blips", () => {
+    const vad = new VoiceActivityDetector();
+
+    for (let i = 0; i < 5; i++) {
+      expect(feed(vad, tone(-20), 50)).toEqual([]);
+      feed(vad, silence(), 100);
+    }
+  });
+
+  it("cuts utterances at the maximum length", () => {
+    const vad = new VoiceActivityDetector({ maxUtteranceMs: 1000 });
+
+    expect(feed(vad, tone(-20), 1100)).toEqual(["speechstart", "speechend"]);
+  });
+
+  it("doesn't take loud noise for speech", () => {
+    const vad = new VoiceActivityDetector();
+
+    expect(feed(vad, noise(-20), 2000)).toEqual([]);
+  });
+
+  it("raises the noise floor to meet steady noise", () => {
+    const vad = new VoiceActivityDetector();
+    feed(vad, noise(-40), 3000);
+
+    // Barely above the noise: not speech
+    expect(feed(vad, tone(-37), 500)).toEqual([]);
+    // Well above it
+    expect(feed(vad, tone(-20), 300)).toEqual(["speechstart"]);
+  });
+
+  it("forgets a half-finished utterance on reset", () => {
+    const vad = new VoiceActivityDetector();
+    feed(vad, tone(-20), 300);
+
+    vad.reset();
+
+    expect(vad.isSpeaking()).toBe(false);
+    expect(feed(vad, silence(), 1000)).toEqual([]);
+  });
+});
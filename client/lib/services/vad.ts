@@ -0,0 +1,165 @@
+export interface VADConfig {
+  energyThreshold: number; // dB above the noise floor that counts as voiced
+  minEnergyDb: number; // frames quieter than this (dBFS) are never voiced
+  flatnessThreshold: number; // 0-1; voice is tonal, so well below noise
+  speechBandRatio: number; // 0-1; share of energy in the 300-3400 Hz band
+  minSpeechMs: number; // voiced audio needed before an utterance starts
+  hangoverMs: number; // pause tolerated inside an utterance
+  maxUtteranceMs: number; // longer utterances are cut here
+}
+
+export interface VADFrame {
+  samples: Float32Array; // time domain, -1 to 1
+  spectrum: Float32Array; // dB per bin, as from AnalyserNode.getFloatFrequencyData
+  sampleRate: number;
+}
+
+export type VADEvent = "speechstart" | "speechend";
+
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+// How quickly the noise floor follows quiet frames
+const NOISE_FLOOR_ADAPTATION = 0.05;
+
+/**
+ * Frame-by-frame voice activity detection. A frame is voiced when it is
+ * loud enough above an adaptive noise floor and its spectrum looks like
+ * speech (tonal, or concentrated in the speech band). Utterances start
+ * after minSpeechMs of voiced frames and end after hangoverMs without,
+ * so short pauses between words don't split a sentence.
+ */
+export class VoiceActivityDetector {
+  private config: VADConfig = {
+    energyThreshold: 12,
+    minEnergyDb: -50,
+    flatnessThreshold: 0.3,
+    speechBandRatio: 0.6,
+    minSpeechMs: 150,
+    hangoverMs: 700,
+    maxUtteranceMs: 15000,
+  };
+
+  private noiseFloorDb = -60;
+  private speaking = false;
+  private voicedMs = 0;
+  private unvoicedMs = 0;
+  private utteranceMs = 0;
+
+  constructor(config?: Partial<VADConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  getConfig(): Readonly<VADConfig> {
+    return this.config;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  // Feed one frame; returns the boundary it completes, if any
+  process(frame: VADFrame): VADEvent | null {
+    const frameMs = (frame.samples.length / frame.sampleRate) * 1000;
+    const voiced = this.isVoiced(frame);
+
+    if (!this.speaking) {
+      this.voicedMs = voiced ? this.voicedMs + frameMs : 0;
+      if (this.voicedMs >= this.config.minSpeechMs) {
+        this.speaking = true;
+        this.unvoicedMs = 0;
+        this.utteranceMs = this.voicedMs;
+        return "speechstart";
+      }
+      return null;
+    }
+
+    this.utteranceMs += frameMs;
+    this.unvoicedMs = voiced ? 0 : this.unvoicedMs + frameMs;
+
+    if (
+      this.unvoicedMs >= this.config.hangoverMs ||
+      this.utteranceMs >= this.config.maxUtteranceMs
+    ) {
+      this.speaking = false;
+      this.voicedMs = 0;
+      return "speechend";
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.speaking = false;
+    this.voicedMs = 0;
+    this.unvoicedMs = 0;
+    this.utteranceMs = 0;
+  }
+
+  private isVoiced(frame: VADFrame): boolean {
+    const energyDb = this.energyDb(frame.samples);
+    const loudEnough =
+      energyDb >= this.config.minEnergyDb &&
+      energyDb >= this.noiseFloorDb + this.config.energyThreshold;
+
+    const voiced = loudEnough && this.soundsLikeSpeech(frame);
+    if (!voiced) {
+      // Learn the floor from everything that isn't speech, loud steady
+      // noise included, so the floor can rise to meet it
+      this.noiseFloorDb +=
+        (energyDb - this.noiseFloorDb) * NOISE_FLOOR_ADAPTATION;
+    }
+    return voiced;
+  }
+
+  private soundsLikeSpeech(frame: VADFrame): boolean {
+    const { flatness, bandRatio } = this.spectralFeatures(
+      frame.spectrum,
+      frame.sampleRate,
+    );
+    return (
+      flatness < this.config.flatnessThreshold ||
+      bandRatio >= this.config.speechBandRatio
+    );
+  }
+
+  private energyDb(samples: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(sum / (samples.length || 1));
+    return 20 * Math.log10(rms || 1e-10);
+  }
+
+  // Spectral flatness (geometric over arithmetic mean of power; 1 for
+  // white noise, near 0 for tones) and the speech band's share of power
+  private spectralFeatures(
+    spectrum: Float32Array,
+    sampleRate: number,
+  ): { flatness: number; bandRatio: number } {
+    const binHz = sampleRate / 2 / (spectrum.length || 1);
+    let logSum = 0;
+    let powerSum = 0;
+    let bandPower = 0;
+
+    for (let i = 0; i < spectrum.length; i++) {
+      const power = Math.pow(10, spectrum[i] / 10) || 1e-20;
+      logSum += Math.log(power);
+      powerSum += power;
+
+      const hz = i * binHz;
+      if (hz >= SPEECH_BAND_HZ[0] && hz <= SPEECH_BAND_HZ[1]) {
+        bandPower += power;
+      }
+    }
+
+    if (powerSum === 0) return { flatness: 1, bandRatio: 0 };
+    const mean = powerSum / spectrum.length;
+    return {
+      flatness: Math.exp(logSum / spectrum.length) / mean,
+      bandRatio: bandPower / powerSum,
+    };
+  }
+}
+
+export default VoiceActivityDetector;
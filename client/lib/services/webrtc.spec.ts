@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AblyService, { type TranslationMessage } from "./ably";
+import { WebRTCService } from "./webrtc";
+
+vi.mock("./auth", () => ({ getAuthHeaders: async () => ({}) }));
+
+vi.mock("./ably", () => ({
+  default: {
+    getCurrentUserId: () => "alice",
+    getParticipants: () => ["alice", "bob", "carol"].map((id) => ({ id })),
+    sendTranslation: vi.fn(async () => {}),
+  },
+}));
+
+// Peers whose end of the data channel acknowledges translations
+const { acking } = vi.hoisted(() => ({ acking: new Set<string>() }));
+
+// Just enough of a peer connection for its data channel
+class FakePeerConnection {
+  constructor(private peerId: string) {}
+
+  createDataChannel() {
+    const channel = {
+      readyState: "open",
+      onmessage: null as null | ((event: { data: string }) => void),
+      send: (raw: string) => {
+        const message = JSON.parse(raw);
+        if (message.kind !== "translation" || !acking.has(this.peerId)) return;
+        setTimeout(() =>
+          channel.onmessage?.({
+            data: JSON.stringify({ kind: "ack", id: message.translation.id }),
+          }),
+        );
+      },
+    };
+    return channel;
+  }
+}
+
+const translation: TranslationMessage = {
+  id: "trans_1",
+  sessionId: "session_1",
+  senderId: "alice",
+  originalText: "Hello",
+  translatedText: "Hola",
+  sourceLanguage: "en",
+  targetLanguage: "es",
+  timestamp: 0,
+};
+
+function connectedTo(...peerIds: string[]): WebRTCService {
+  const webrtc = new WebRTCService();
+  for (const peerId of peerIds) {
+    vi.stubGlobal(
+      "RTCPeerConnection",
+      class extends FakePeerConnection {
+        constructor() {
+          super(peerId);
+        }
+      },
+    );
+    webrtc.createPeerConnection(peerId);
+  }
+  return webrtc;
+}
+
+describe("WebRTCService.sendTranslation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(AblyService.sendTranslation).mockClear();
+    acking.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("publishes nothing when every peer acknowledges", async () => {
+    acking.add("bob").add("carol");
+    const webrtc = connectedTo("bob", "carol");
+
+    const sent = webrtc.sendTranslation(translation);
+    await vi.runAllTimersAsync();
+    await sent;
+
+    expect(AblyService.sendTranslation).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the realtime transport when a peer doesn't", async () => {
+    acking.add("bob");
+    const webrtc = connectedTo("bob", "carol");
+
+    const sent = webrtc.sendTranslation(translation);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(AblyService.sendTranslation).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await sent;
+
+    expect(AblyService.sendTranslation).toHaveBeenCalledOnce();
+    expect(AblyService.sendTranslation).toHaveBeenCalledWith(translation);
+  });
+
+  it("falls back for peers it has no connection to", async () => {
+    acking.add("bob");
+    const webrtc = connectedTo("bob");
+
+    const sent = webrtc.sendTranslation(translation);
+    await vi.runAllTimersAsync();
+    await sent;
+
+    expect(AblyService.sendTranslation).toHaveBeenCalledOnce();
+  });
+});
@@ -1,4 +1,15 @@
-import AblyService, { WebRTCSignal } from "./ably";
+import type { IceServersResponse } from "@shared/api";
+import AblyService, {
+  SessionParticipant,
+  TranslationMessage,
+  WebRTCSignal,
+} from "./ably";
+import { getAuthHeaders } from "./auth";
+import {
+  ConnectionQuality,
+  StatsSample,
+  summarizeStats,
+} from "./connection-quality";
 
 export interface AudioStreamConfig {
   echoCancellation: boolean;
@@ -14,17 +25,74 @@ export interface PeerConnectionEvent {
     | "disconnected"
     | "error"
     | "stream-received"
-    | "stream-lost";
+    | "stream-lost"
+    | "quality";
   peerId: string;
   data?: any;
 }
 
+// What travels on a peer's data channel. Translations are acknowledged
+// so the sender knows when to fall back to the realtime transport.
+type DataChannelMessage =
+  | { kind: "translation"; translation: TranslationMessage }
+  | { kind: "ack"; id: string }
+  | { kind: "status"; status: SessionParticipant["status"] };
+
+// Per-peer state for perfect negotiation
+// (https://w3c.github.io/webrtc-pc/#perfect-negotiation-example)
+interface PeerState {
+  connection: RTCPeerConnection;
+  dataChannel: RTCDataChannel;
+  // The polite side yields when both offer at once
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  iceRestarts: number;
+  // Previous stats, for rates and loss between samples
+  lastStats?: StatsSample;
+  quality?: ConnectionQuality;
+}
+
+const MAX_ICE_RESTARTS = 3;
+const ICE_SERVERS_URL = "/api/webrtc/ice-servers";
+// Fetch fresh TURN credentials this long before the old ones expire
+const ICE_REFRESH_MARGIN_MS = 60 * 1000;
+const ICE_RETRY_DELAY_MS = 30 * 1000;
+const DATA_CHANNEL_ID = 0;
+const ACK_TIMEOUT_MS = 2000;
+// Translation ids remembered per listener to drop the copy that also
+// came through the realtime transport
+const SEEN_TRANSLATIONS_LIMIT = 200;
+const STATS_INTERVAL_MS = 2000;
+
 export class WebRTCService {
-  private peerConnections: Map<string, RTCPeerConnection> = new Map();
+  private peers: Map<string, PeerState> = new Map();
   private localStream: MediaStream | null = null;
-  private eventCallbacks: Map<string, (event: PeerConnectionEvent) => void> =
+  private eventCallbacks: Map<
+    string,
+    Set<(event: PeerConnectionEvent) => void>
+  > = new Map();
+  private unsubscribeSignals: (() => void) | null = null;
+  // Signals are applied one at a time, in arrival order; a candidate
+  // can't be added before the description it belongs to
+  private signalQueue: Promise<void> = Promise.resolve();
+  private iceServersReady: Promise<void> = Promise.resolve();
+  private iceRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingAcks: Map<string, () => void> = new Map();
+  private translationListeners: Set<(translation: TranslationMessage) => void> =
+    new Set();
+  // Outgoing track that carries our synthesized translations
+  private voiceContext: AudioContext | null = null;
+  private voiceDestination: MediaStreamAudioDestinationNode | null = null;
+  private voiceSource: AudioBufferSourceNode | null = null;
+  // Incoming streams by id, and the elements playing peers' voice streams
+  private remoteStreams: Map<string, { peerId: string; stream: MediaStream }> =
     new Map();
-  private isInitialized = false;
+  private remoteVoices: Map<string, HTMLAudioElement> = new Map();
+  private statusListeners: Set<
+    (peerId: string, status: SessionParticipant["status"]) => void
+  > = new Set();
 
   private rtcConfig: RTCConfiguration = {
     iceServers: [
@@ -34,16 +102,99 @@ export class WebRTCService {
     ],
   };
 
-  constructor() {
-    this.initialize();
+  // Start listening for signals on the current session's channel. Call
+  // once the session is joined; the returned function leaves the mesh.
+  joinMesh(): () => void {
+    this.iceServersReady = this.refreshIceServers();
+    this.ensureVoiceStream();
+    this.startStatsMonitor();
+
+    this.unsubscribeSignals?.();
+    this.unsubscribeSignals = AblyService.onWebRTCSignal((signal) => {
+      this.signalQueue = this.signalQueue
+        .then(() => this.iceServersReady)
+        .then(() => this.handleSignal(signal));
+    });
+    return () => this.leaveMesh();
+  }
+
+  leaveMesh(): void {
+    this.unsubscribeSignals?.();
+    this.unsubscribeSignals = null;
+    if (this.iceRefreshTimer) {
+      clearTimeout(this.iceRefreshTimer);
+      this.iceRefreshTimer = null;
+    }
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    this.peers.forEach((_peer, peerId) => this.closePeerConnection(peerId));
+  }
+
+  // STUN and TURN come from our server, TURN with credentials that
+  // expire. Until the first fetch succeeds the public STUN defaults apply.
+  private async refreshIceServers(): Promise<void> {
+    try {
+      const response = await fetch(ICE_SERVERS_URL, {
+        headers: await getAuthHeaders(),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`WebRTC API error: ${response.status} - ${errorText}`);
+      }
+
+      const { iceServers, expiresAt }: IceServersResponse =
+        await response.json();
+      this.rtcConfig = { ...this.rtcConfig, iceServers };
+      // Established connections pick these up on their next ICE restart
+      this.peers.forEach(({ connection }) =>
+        connection.setConfiguration(this.rtcConfig),
+      );
+      this.scheduleIceRefresh(expiresAt - Date.now() - ICE_REFRESH_MARGIN_MS);
+    } catch (error) {
+      console.error("Failed to load ICE servers:", error);
+      this.scheduleIceRefresh(ICE_RETRY_DELAY_MS);
+    }
+  }
+
+  private scheduleIceRefresh(delay: number): void {
+    if (this.iceRefreshTimer) clearTimeout(this.iceRefreshTimer);
+
+    this.iceRefreshTimer = setTimeout(
+      () => {
+        this.iceRefreshTimer = null;
+        this.iceServersReady = this.refreshIceServers();
+      },
+      Math.max(delay, 0),
+    );
   }
 
-  private async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+  // Bring the mesh in line with session membership: connect to everyone
+  // new, drop everyone who left
+  syncPeers(participantIds: string[]): void {
+    const selfId = AblyService.getCurrentUserId();
+    const wanted = new Set(participantIds.filter((id) => id !== selfId));
+
+    wanted.forEach((peerId) => {
+      // Only one side opens, so the two don't race to create connections;
+      // the other side creates its end when the offer arrives
+      if (!this.peers.has(peerId) && this.isInitiator(peerId)) {
+        this.connectToPeer(peerId).catch((error) => {
+          console.error(`Failed to connect to ${peerId}:`, error);
+        });
+      }
+    });
 
-    // Listen for WebRTC signals from Ably
-    AblyService.onWebRTCSignal(this.handleSignal.bind(this));
-    this.isInitialized = true;
+    this.peers.forEach((_peer, peerId) => {
+      if (!wanted.has(peerId)) this.closePeerConnection(peerId);
+    });
+  }
+
+  // Lower id initiates and is the impolite peer
+  private isInitiator(peerId: string): boolean {
+    const selfId = AblyService.getCurrentUserId();
+    return !!selfId && selfId < peerId;
   }
 
   async startAudioStream(
@@ -70,6 +221,10 @@ export class WebRTCService {
         video: false,
       });
 
+      // Peers may have connected before the microphone was ready;
+      // adding tracks renegotiates them
+      this.peers.forEach(({ connection }) => this.addLocalTracks(connection));
+
       return this.localStream;
     } catch (error) {
       console.error("Failed to get audio stream:", error);
@@ -77,28 +232,138 @@ export class WebRTCService {
     }
   }
 
-  async createPeerConnection(
-    peerId: string,
-    isInitiator: boolean = false,
-  ): Promise<void> {
-    if (this.peerConnections.has(peerId)) {
-      console.warn(`Peer connection for ${peerId} already exists`);
-      return;
+  // Microphone (once started) and voice tracks, each added once
+  private addLocalTracks(connection: RTCPeerConnection): void {
+    const sending = new Set(
+      connection.getSenders().map((sender) => sender.track),
+    );
+    [this.localStream, this.voiceDestination?.stream].forEach((stream) => {
+      stream?.getTracks().forEach((track) => {
+        if (!sending.has(track)) connection.addTrack(track, stream);
+      });
+    });
+  }
+
+  // Created up front so peers negotiate the voice track when they
+  // connect rather than on the first utterance
+  private ensureVoiceStream(): void {
+    if (this.voiceDestination) return;
+
+    this.voiceContext = new AudioContext();
+    this.voiceDestination = this.voiceContext.createMediaStreamDestination();
+    this.peers.forEach(({ connection }) => this.addLocalTracks(connection));
+  }
+
+  // Id of the stream peers hear our synthesized translations on; goes in
+  // TranslationMessage.voiceStreamId so receivers know to listen to it
+  getVoiceStreamId(): string | undefined {
+    return this.voiceDestination?.stream.id;
+  }
+
+  // Play synthesized audio (e.g. from TTSProvider.synthesize) into the
+  // voice track. Resolves when it has finished.
+  async streamVoice(audio: ArrayBuffer): Promise<void> {
+    this.ensureVoiceStream();
+    const context = this.voiceContext!;
+
+    this.stopVoice();
+    // Created before any user gesture, so it may still be suspended
+    await context.resume();
+    // decodeAudioData detaches its input; the caller may be playing it too
+    const buffer = await context.decodeAudioData(audio.slice(0));
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.voiceDestination!);
+    this.voiceSource = source;
+
+    await new Promise<void>((resolve) => {
+      source.onended = () => resolve();
+      source.start();
+    });
+    if (this.voiceSource === source) this.voiceSource = null;
+  }
+
+  stopVoice(): void {
+    if (this.voiceSource) {
+      this.voiceSource.stop();
+      this.voiceSource = null;
     }
+  }
 
-    const peerConnection = new RTCPeerConnection(this.rtcConfig);
-    this.peerConnections.set(peerId, peerConnection);
+  // Start playing a peer's voice stream. Returns false if we aren't
+  // receiving it, in which case the caller has to voice the text itself.
+  playRemoteVoice(peerId: string, streamId: string): boolean {
+    const remote = this.remoteStreams.get(streamId);
+    const peer = this.peers.get(peerId);
+    if (
+      !remote ||
+      remote.peerId !== peerId ||
+      peer?.connection.connectionState !== "connected"
+    ) {
+      return false;
+    }
 
-    // Add local stream tracks
-    if (this.localStream) {
-      this.localStream.getTracks().forEach((track) => {
-        peerConnection.addTrack(track, this.localStream!);
-      });
+    // The element keeps playing between utterances; the track is silent
+    let audio = this.remoteVoices.get(peerId);
+    if (!audio || audio.srcObject !== remote.stream) {
+      audio?.pause();
+      audio = new Audio();
+      audio.srcObject = remote.stream;
+      this.remoteVoices.set(peerId, audio);
     }
+    audio.play().catch((error) => {
+      console.error(`Failed to play voice from ${peerId}:`, error);
+    });
+    return true;
+  }
+
+  createPeerConnection(peerId: string): RTCPeerConnection {
+    const existing = this.peers.get(peerId);
+    if (existing) return existing.connection;
+
+    const peerConnection = new RTCPeerConnection(this.rtcConfig);
+    // Both ends create it with the same id, so there's no ondatachannel
+    // to wait for and no question of who opens it
+    const dataChannel = peerConnection.createDataChannel("messages", {
+      negotiated: true,
+      id: DATA_CHANNEL_ID,
+      ordered: true,
+    });
+    dataChannel.onmessage = (event) => this.handleData(peerId, event.data);
+
+    const peer: PeerState = {
+      connection: peerConnection,
+      dataChannel,
+      polite: !this.isInitiator(peerId),
+      makingOffer: false,
+      ignoreOffer: false,
+      iceRestarts: 0,
+    };
+    this.peers.set(peerId, peer);
+
+    // Whenever tracks change or ICE restarts, whoever needs to offers
+    peerConnection.onnegotiationneeded = async () => {
+      try {
+        peer.makingOffer = true;
+        await peerConnection.setLocalDescription();
+        await this.sendDescription(peerId, peerConnection.localDescription!);
+      } catch (error) {
+        console.error(`Negotiation with ${peerId} failed:`, error);
+      } finally {
+        peer.makingOffer = false;
+      }
+    };
 
     // Handle incoming streams
     peerConnection.ontrack = (event) => {
       const [remoteStream] = event.streams;
+      if (remoteStream) {
+        this.remoteStreams.set(remoteStream.id, {
+          peerId,
+          stream: remoteStream,
+        });
+      }
       this.emitEvent({
         type: "stream-received",
         peerId,
@@ -114,6 +379,8 @@ export class WebRTCService {
           senderId: AblyService.getCurrentUserId()!,
           targetId: peerId,
           data: event.candidate,
+        }).catch((error) => {
+          console.error("Failed to send ICE candidate:", error);
         });
       }
     };
@@ -123,66 +390,93 @@ export class WebRTCService {
       const state = peerConnection.connectionState;
 
       if (state === "connected") {
+        peer.iceRestarts = 0;
         this.emitEvent({ type: "connected", peerId });
-      } else if (state === "disconnected" || state === "failed") {
+      } else if (state === "disconnected") {
+        // Often recovers by itself; "failed" is the one to act on
         this.emitEvent({ type: "disconnected", peerId });
-        this.closePeerConnection(peerId);
+      } else if (state === "failed") {
+        this.handleConnectionFailure(peerId, peer);
       }
     };
 
-    // If this peer is the initiator, create and send offer
-    if (isInitiator) {
-      const offer = await peerConnection.createOffer();
-      await peerConnection.setLocalDescription(offer);
+    return peerConnection;
+  }
 
-      await AblyService.sendWebRTCSignal({
-        type: "offer",
-        senderId: AblyService.getCurrentUserId()!,
-        targetId: peerId,
-        data: offer,
+  // The initiator restarts ICE, which renegotiates; after a few tries it
+  // gives up on the peer. Peers that left are closed by syncPeers.
+  private handleConnectionFailure(peerId: string, peer: PeerState): void {
+    if (peer.iceRestarts >= MAX_ICE_RESTARTS) {
+      this.emitEvent({
+        type: "error",
+        peerId,
+        data: { error: "Peer connection failed" },
       });
+      this.closePeerConnection(peerId);
+      return;
+    }
+
+    if (!peer.polite) {
+      peer.iceRestarts++;
+      peer.connection.restartIce();
     }
   }
 
+  private async sendDescription(
+    peerId: string,
+    description: RTCSessionDescription,
+  ): Promise<void> {
+    await AblyService.sendWebRTCSignal({
+      type: description.type === "offer" ? "offer" : "answer",
+      senderId: AblyService.getCurrentUserId()!,
+      targetId: peerId,
+      data: description.toJSON(),
+    });
+  }
+
   private async handleSignal(signal: WebRTCSignal): Promise<void> {
     const { senderId, type, data } = signal;
-    let peerConnection = this.peerConnections.get(senderId);
 
     try {
       switch (type) {
         case "offer":
-          if (!peerConnection) {
-            await this.createPeerConnection(senderId, false);
-            peerConnection = this.peerConnections.get(senderId)!;
+        case "answer": {
+          if (type === "answer" && !this.peers.has(senderId)) return;
+
+          // An offer from someone new opens our end of the connection
+          const connection = this.createPeerConnection(senderId);
+          const peer = this.peers.get(senderId)!;
+
+          const offerCollision =
+            type === "offer" &&
+            (peer.makingOffer || connection.signalingState !== "stable");
+          peer.ignoreOffer = !peer.polite && offerCollision;
+          if (peer.ignoreOffer) return;
+
+          // Rolls back our own offer implicitly when we're polite
+          await connection.setRemoteDescription(data);
+
+          if (type === "offer") {
+            // Sending on the transceivers the offer created avoids a
+            // second round of negotiation
+            this.addLocalTracks(connection);
+            await connection.setLocalDescription();
+            await this.sendDescription(senderId, connection.localDescription!);
           }
-
-          await peerConnection.setRemoteDescription(
-            new RTCSessionDescription(data),
-          );
-          const answer = await peerConnection.createAnswer();
-          await peerConnection.setLocalDescription(answer);
-
-          await AblyService.sendWebRTCSignal({
-            type: "answer",
-            senderId: AblyService.getCurrentUserId()!,
-            targetId: senderId,
-            data: answer,
-          });
           break;
-
-        case "answer":
-          if (peerConnection) {
-            await peerConnection.setRemoteDescription(
-              new RTCSessionDescription(data),
-            );
-          }
-          break;
-
-        case "ice-candidate":
-          if (peerConnection) {
-            await peerConnection.addIceCandidate(new RTCIceCandidate(data));
+        }
+
+        case "ice-candidate": {
+          const peer = this.peers.get(senderId);
+          if (!peer) return;
+          try {
+            await peer.connection.addIceCandidate(data);
+          } catch (error) {
+            // Candidates for an offer we ignored are expected to fail
+            if (!peer.ignoreOffer) throw error;
           }
           break;
+        }
       }
     } catch (error) {
       console.error(`Error handling WebRTC signal (${type}):`, error);
@@ -195,14 +489,157 @@ export class WebRTCService {
   }
 
   async connectToPeer(peerId: string): Promise<void> {
-    await this.createPeerConnection(peerId, true);
+    await this.iceServersReady;
+    const connection = this.createPeerConnection(peerId);
+    // Adding tracks fires negotiationneeded, which sends the offer
+    this.addLocalTracks(connection);
+  }
+
+  // Straight to each peer over its data channel. If any of them can't be
+  // reached that way or doesn't acknowledge in time, the message goes out
+  // on the realtime transport too, to everyone; receivers drop the copy.
+  // Nothing else needs it there: session history is kept in Neon.
+  async sendTranslation(translation: TranslationMessage): Promise<void> {
+    const selfId = AblyService.getCurrentUserId();
+    const recipients = AblyService.getParticipants()
+      .map((participant) => participant.id)
+      .filter((id) => id !== selfId);
+
+    const delivered = await Promise.all(
+      recipients.map((peerId) => this.sendAcknowledged(peerId, translation)),
+    );
+    if (!delivered.every(Boolean)) {
+      await AblyService.sendTranslation(translation);
+    }
+  }
+
+  // Translations from either path, each delivered once
+  onTranslationReceived(
+    callback: (translation: TranslationMessage) => void,
+  ): () => void {
+    const seen: string[] = [];
+    const deliver = (translation: TranslationMessage) => {
+      const key = `${translation.senderId}:${translation.id}`;
+      if (seen.includes(key)) return;
+      seen.push(key);
+      if (seen.length > SEEN_TRANSLATIONS_LIMIT) seen.shift();
+      callback(translation);
+    };
+
+    this.translationListeners.add(deliver);
+    const unsubscribeRealtime = AblyService.onTranslationReceived(deliver);
+
+    return () => {
+      this.translationListeners.delete(deliver);
+      unsubscribeRealtime();
+    };
+  }
+
+  // Best effort: presence carries status too, just more slowly
+  sendStatus(status: SessionParticipant["status"]): void {
+    this.peers.forEach((peer) =>
+      this.sendData(peer, { kind: "status", status }),
+    );
+  }
+
+  onStatusReceived(
+    callback: (peerId: string, status: SessionParticipant["status"]) => void,
+  ): () => void {
+    this.statusListeners.add(callback);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  private sendAcknowledged(
+    peerId: string,
+    translation: TranslationMessage,
+  ): Promise<boolean> {
+    const peer = this.peers.get(peerId);
+    if (!peer) return Promise.resolve(false);
+
+    const key = `${peerId}:${translation.id}`;
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(key);
+        resolve(false);
+      }, ACK_TIMEOUT_MS);
+
+      this.pendingAcks.set(key, () => {
+        clearTimeout(timer);
+        this.pendingAcks.delete(key);
+        resolve(true);
+      });
+
+      if (!this.sendData(peer, { kind: "translation", translation })) {
+        this.pendingAcks.delete(key);
+        clearTimeout(timer);
+        resolve(false);
+      }
+    });
+  }
+
+  private sendData(peer: PeerState, message: DataChannelMessage): boolean {
+    if (peer.dataChannel.readyState !== "open") return false;
+
+    try {
+      peer.dataChannel.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error("Failed to send on data channel:", error);
+      return false;
+    }
+  }
+
+  private handleData(peerId: string, raw: string): void {
+    let message: DataChannelMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn(`Ignoring malformed data channel message from ${peerId}`);
+      return;
+    }
+
+    switch (message.kind) {
+      case "translation": {
+        const { translation } = message;
+        // Only the peer itself can speak for itself on this channel
+        if (translation.senderId !== peerId) return;
+
+        const peer = this.peers.get(peerId);
+        if (peer) this.sendData(peer, { kind: "ack", id: translation.id });
+        this.translationListeners.forEach((callback) => callback(translation));
+        break;
+      }
+      case "ack":
+        this.pendingAcks.get(`${peerId}:${message.id}`)?.();
+        break;
+      case "status":
+        this.statusListeners.forEach((callback) =>
+          callback(peerId, message.status),
+        );
+        break;
+    }
+  }
+
+  getConnectedPeers(): string[] {
+    return Array.from(this.peers.entries())
+      .filter(([, peer]) => peer.connection.connectionState === "connected")
+      .map(([peerId]) => peerId);
   }
 
   closePeerConnection(peerId: string): void {
-    const peerConnection = this.peerConnections.get(peerId);
-    if (peerConnection) {
-      peerConnection.close();
-      this.peerConnections.delete(peerId);
+    const peer = this.peers.get(peerId);
+    if (peer) {
+      peer.connection.close();
+      this.peers.delete(peerId);
+
+      this.remoteVoices.get(peerId)?.pause();
+      this.remoteVoices.delete(peerId);
+      this.remoteStreams.forEach((remote, streamId) => {
+        if (remote.peerId === peerId) this.remoteStreams.delete(streamId);
+      });
+
       this.emitEvent({ type: "disconnected", peerId });
     }
   }
@@ -221,37 +658,68 @@ export class WebRTCService {
   }
 
   getPeerConnection(peerId: string): RTCPeerConnection | undefined {
-    return this.peerConnections.get(peerId);
+    return this.peers.get(peerId)?.connection;
   }
 
   getAllPeerConnections(): Map<string, RTCPeerConnection> {
-    return new Map(this.peerConnections);
+    return new Map(
+      Array.from(this.peers.entries()).map(([peerId, peer]) => [
+        peerId,
+        peer.connection,
+      ]),
+    );
   }
 
+  // Subscribe to one peer's events, or every peer's with "*"
   onPeerEvent(
     peerId: string,
     callback: (event: PeerConnectionEvent) => void,
   ): () => void {
-    this.eventCallbacks.set(peerId, callback);
+    if (!this.eventCallbacks.has(peerId)) {
+      this.eventCallbacks.set(peerId, new Set());
+    }
+    this.eventCallbacks.get(peerId)!.add(callback);
 
     return () => {
-      this.eventCallbacks.delete(peerId);
+      this.eventCallbacks.get(peerId)?.delete(callback);
     };
   }
 
   private emitEvent(event: PeerConnectionEvent): void {
-    const callback = this.eventCallbacks.get(event.peerId);
-    if (callback) {
-      callback(event);
+    this.eventCallbacks.get(event.peerId)?.forEach((cb) => cb(event));
+    if (event.peerId !== "*") {
+      this.eventCallbacks.get("*")?.forEach((cb) => cb(event));
     }
+  }
 
-    // Also emit to global listeners if needed
-    this.eventCallbacks.forEach((cb, peerId) => {
-      if (peerId === "*") {
-        // Global listener
-        cb(event);
-      }
-    });
+  // Sample every connected peer's stats and emit a "quality" event for
+  // each, carrying a ConnectionQuality
+  private startStatsMonitor(): void {
+    if (this.statsTimer) return;
+
+    this.statsTimer = setInterval(() => {
+      this.peers.forEach((peer, peerId) => {
+        if (peer.connection.connectionState !== "connected") return;
+        this.sampleQuality(peerId, peer).catch((error) => {
+          console.warn(`Failed to read stats for ${peerId}:`, error);
+        });
+      });
+    }, STATS_INTERVAL_MS);
+  }
+
+  private async sampleQuality(peerId: string, peer: PeerState): Promise<void> {
+    const report = await this.getConnectionStats(peerId);
+    // Closed while we were waiting
+    if (!report || this.peers.get(peerId) !== peer) return;
+
+    const { quality, sample } = summarizeStats(report, peer.lastStats);
+    peer.lastStats = sample;
+    peer.quality = quality;
+    this.emitEvent({ type: "quality", peerId, data: quality });
+  }
+
+  getConnectionQuality(peerId: string): ConnectionQuality | null {
+    return this.peers.get(peerId)?.quality ?? null;
   }
 
   async getAudioDevices(): Promise<MediaDeviceInfo[]> {
@@ -274,30 +742,25 @@ export class WebRTCService {
       deviceId: { exact: deviceId },
     });
 
-    // Update all peer connections with new stream
-    for (const [peerId, peerConnection] of this.peerConnections) {
-      if (this.localStream) {
-        // Remove old tracks
-        const senders = peerConnection.getSenders();
-        senders.forEach((sender) => {
-          if (sender.track) {
-            peerConnection.removeTrack(sender);
-          }
-        });
-
-        // Add new tracks
-        this.localStream.getTracks().forEach((track) => {
-          peerConnection.addTrack(track, this.localStream!);
-        });
-      }
+    // startAudioStream added the new tracks; drop the old ones
+    const current = new Set([
+      ...(this.localStream?.getTracks() ?? []),
+      ...(this.voiceDestination?.stream.getTracks() ?? []),
+    ]);
+    for (const { connection: peerConnection } of this.peers.values()) {
+      peerConnection.getSenders().forEach((sender) => {
+        if (sender.track && !current.has(sender.track)) {
+          peerConnection.removeTrack(sender);
+        }
+      });
     }
   }
 
   getConnectionStats(peerId: string): Promise<RTCStatsReport | null> {
-    const peerConnection = this.peerConnections.get(peerId);
-    if (!peerConnection) return Promise.resolve(null);
+    const peer = this.peers.get(peerId);
+    if (!peer) return Promise.resolve(null);
 
-    return peerConnection.getStats();
+    return peer.connection.getStats();
   }
 
   async enableEchoCancellation(enabled: boolean): Promise<void> {
@@ -314,13 +777,9 @@ export class WebRTCService {
 
   disconnect(): void {
     this.stopAudioStream();
-
-    // Close all peer connections
-    this.peerConnections.forEach((peerConnection, peerId) => {
-      this.closePeerConnection(peerId);
-    });
-
-    this.eventCallbacks.clear();
+    this.stopVoice();
+    // Event listeners stay; their owners unsubscribe when they're done
+    this.leaveMesh();
   }
 }
 
@@ -1,8 +1,13 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import TranslatorCard from "../components/TranslatorCard";
 import MainMenu from "../components/MainMenu";
 import GuestSignupModal from "../components/GuestSignupModal";
+import { useOrchestrator } from "../hooks/use-orchestrator";
+import {
+  ConnectionQuality,
+  worstQuality,
+} from "../lib/services/connection-quality";
 
 interface IndexProps {
   mode?: "just-me" | "talk-together";
@@ -19,6 +24,24 @@ export default function Index({ mode }: IndexProps) {
     mode ||
     (location.pathname === "/talk-together" ? "talk-together" : "just-me");
 
+  const orchestrator = useOrchestrator(currentMode);
+  const [networkQuality, setNetworkQuality] =
+    useState<ConnectionQuality | null>(null);
+
+  useEffect(() => {
+    if (!orchestrator) return;
+
+    const qualities = new Map<string, ConnectionQuality>();
+    return orchestrator.onConnectionQuality((peerId, quality) => {
+      if (quality) {
+        qualities.set(peerId, quality);
+      } else {
+        qualities.delete(peerId);
+      }
+      setNetworkQuality(worstQuality(qualities.values()));
+    });
+  }, [orchestrator]);
+
   const handleModeChange = (newMode: "just-me" | "talk-together") => {
     navigate(`/${newMode}`);
   };
@@ -91,15 +114,26 @@ export default function Index({ mode }: IndexProps) {
           {currentMode === "just-me" ? (
             <div className="flex justify-center">
               <div className="w-full max-w-md">
-                <TranslatorCard />
+                <TranslatorCard
+                  mode={currentMode}
+                  networkQuality={networkQuality}
+                />
               </div>
             </div>
           ) : (
             <>
               {/* Desktop: Side by side */}
               <div className="hidden md:grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-                <TranslatorCard cardId="Main User" />
-                <TranslatorCard cardId="Guest User" />
+                <TranslatorCard
+                  cardId="Main User"
+                  mode={currentMode}
+                  networkQuality={networkQuality}
+                />
+                <TranslatorCard
+                  cardId="Guest User"
+                  mode={currentMode}
+                  networkQuality={networkQuality}
+                />
               </div>
 
               {/* Mobile: Stacked with guest card rotated */}
@@ -108,7 +142,9 @@ export default function Index({ mode }: IndexProps) {
                 <div className="transform rotate-180 mb-4">
                   <TranslatorCard
                     cardId="Guest User"
+                    mode={currentMode}
                     isGuestCard={true}
+                    networkQuality={networkQuality}
                     onGuestSignup={handleGuestSignup}
                   />
                 </div>
@@ -125,7 +161,11 @@ export default function Index({ mode }: IndexProps) {
 
                 {/* Main User Card - Normal orientation */}
                 <div className="mt-4">
-                  <TranslatorCard cardId="Main User" />
+                  <TranslatorCard
+                    cardId="Main User"
+                    mode={currentMode}
+                    networkQuality={networkQuality}
+                  />
                 </div>
               </div>
             </>
@@ -138,6 +178,7 @@ export default function Index({ mode }: IndexProps) {
         isOpen={isMenuOpen}
         onClose={() => setIsMenuOpen(false)}
         currentMode={currentMode}
+        orchestrator={orchestrator}
       />
 
       {/* Guest Signup Modal */}
@@ -0,0 +1,41 @@
+import { Pool } from "pg";
+import Migrator from "./migrator";
+
+let pool: Pool | null = null;
+
+// Server-side connection pool; credentials never leave the server
+export function getPool(): Pool {
+  if (!pool) {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error("Database URL not configured");
+    }
+
+    pool = new Pool({
+      connectionString,
+      max: 20,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+  }
+
+  return pool;
+}
+
+export async function closePool(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
+
+// Refuse to serve against a schema that no longer matches the migrations
+export async function assertSchemaCurrent(): Promise<void> {
+  const { pending } = await new Migrator(getPool()).verify();
+
+  if (pending.length > 0) {
+    console.warn(
+      `${pending.length} pending migration(s); run "npm run migrate" to apply`,
+    );
+  }
+}
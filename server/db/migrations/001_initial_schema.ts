@@ -0,0 +1,84 @@
+import type { Migration } from "./types";
+
+// Baseline schema formerly created by NeonDatabaseService.initializeTables.
+// Kept idempotent so databases created before migrations adopt it cleanly.
+const migration: Migration = {
+  id: 1,
+  name: "initial_schema",
+  up: `
+    CREATE TABLE IF NOT EXISTS sessions (
+      id VARCHAR(255) PRIMARY KEY,
+      host_id VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      ended_at TIMESTAMP,
+      is_active BOOLEAN DEFAULT true,
+      participant_count INTEGER DEFAULT 1,
+      total_translations INTEGER DEFAULT 0,
+      duration_seconds INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS participants (
+      id VARCHAR(255) PRIMARY KEY,
+      session_id VARCHAR(255) NOT NULL REFERENCES sessions(id),
+      user_id VARCHAR(255) NOT NULL,
+      username VARCHAR(255) NOT NULL,
+      is_host BOOLEAN DEFAULT false,
+      joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      left_at TIMESTAMP,
+      status VARCHAR(50) DEFAULT 'connected'
+    );
+
+    CREATE TABLE IF NOT EXISTS translations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      session_id VARCHAR(255) NOT NULL REFERENCES sessions(id),
+      sender_id VARCHAR(255) NOT NULL,
+      original_text TEXT NOT NULL,
+      translated_text TEXT NOT NULL,
+      source_language VARCHAR(10) NOT NULL,
+      target_language VARCHAR(10) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      confidence_score DECIMAL(3,2),
+      audio_url TEXT,
+      enhanced_by_ai BOOLEAN DEFAULT false
+    );
+
+    CREATE TABLE IF NOT EXISTS user_settings (
+      user_id VARCHAR(255) PRIMARY KEY,
+      preferred_source_language VARCHAR(10) DEFAULT 'en',
+      preferred_target_language VARCHAR(10) DEFAULT 'es',
+      voice_settings JSONB DEFAULT '{"volume": 80, "speed": 100}',
+      notification_settings JSONB DEFAULT '{"translation_complete": true, "session_joined": true, "session_ended": true}',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS voice_profiles (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id VARCHAR(255) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      language VARCHAR(10) NOT NULL,
+      is_custom BOOLEAN DEFAULT false,
+      audio_sample_url TEXT,
+      voice_parameters JSONB DEFAULT '{}',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_host_id ON sessions(host_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_active ON sessions(is_active);
+    CREATE INDEX IF NOT EXISTS idx_participants_session_id ON participants(session_id);
+    CREATE INDEX IF NOT EXISTS idx_participants_user_id ON participants(user_id);
+    CREATE INDEX IF NOT EXISTS idx_translations_session_id ON translations(session_id);
+    CREATE INDEX IF NOT EXISTS idx_translations_sender_id ON translations(sender_id);
+    CREATE INDEX IF NOT EXISTS idx_voice_profiles_user_id ON voice_profiles(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS voice_profiles;
+    DROP TABLE IF EXISTS user_settings;
+    DROP TABLE IF EXISTS translations;
+    DROP TABLE IF EXISTS participants;
+    DROP TABLE IF EXISTS sessions;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,35 @@
+import type { Migration } from "./types";
+
+// Reusable translations keyed by normalized source text and everything that
+// changes the output. pg_trgm backs the fuzzy lookup.
+const migration: Migration = {
+  id: 2,
+  name: "translation_memory",
+  up: `
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+    CREATE TABLE translation_memory (
+      id SERIAL PRIMARY KEY,
+      source_text TEXT NOT NULL,
+      source_language VARCHAR(10) NOT NULL,
+      target_language VARCHAR(10) NOT NULL,
+      formality VARCHAR(20) NOT NULL DEFAULT 'default',
+      glossary_version VARCHAR(64) NOT NULL DEFAULT '',
+      translated_text TEXT NOT NULL,
+      provider VARCHAR(50) NOT NULL,
+      enhanced BOOLEAN DEFAULT false,
+      hit_count INTEGER DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (source_language, target_language, formality, glossary_version, source_text)
+    );
+
+    CREATE INDEX idx_translation_memory_trgm
+      ON translation_memory USING GIN (source_text gin_trgm_ops);
+  `,
+  down: `
+    DROP TABLE IF EXISTS translation_memory;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import type { Migration } from "./types";
+
+// DeepL glossaries are immutable, so the DeepL id doubles as a version.
+// One glossary per user and language pair keeps selection unambiguous.
+const migration: Migration = {
+  id: 3,
+  name: "user_glossaries",
+  up: `
+    CREATE TABLE user_glossaries (
+      glossary_id VARCHAR(64) PRIMARY KEY,
+      user_id VARCHAR(255) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      source_language VARCHAR(10) NOT NULL,
+      target_language VARCHAR(10) NOT NULL,
+      entry_count INTEGER DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, source_language, target_language)
+    );
+
+    CREATE INDEX idx_user_glossaries_user_id ON user_glossaries(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS user_glossaries;
+  `,
+};
+
+export default migration;
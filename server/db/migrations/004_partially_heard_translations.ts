@@ -0,0 +1,16 @@
+import type { Migration } from "./types";
+
+// Talk Together playback stops when the listener starts speaking over it
+const migration: Migration = {
+  id: 4,
+  name: "partially_heard_translations",
+  up: `
+    ALTER TABLE translations
+      ADD COLUMN partially_heard BOOLEAN DEFAULT false;
+  `,
+  down: `
+    ALTER TABLE translations DROP COLUMN IF EXISTS partially_heard;
+  `,
+};
+
+export default migration;
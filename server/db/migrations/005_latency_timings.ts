@@ -0,0 +1,30 @@
+import type { Migration } from "./types";
+
+// One row per timed pipeline stage; rows sharing a correlation_id belong
+// to the same utterance
+const migration: Migration = {
+  id: 5,
+  name: "latency_timings",
+  up: `
+    CREATE TABLE latency_timings (
+      id BIGSERIAL PRIMARY KEY,
+      correlation_id VARCHAR(64) NOT NULL,
+      user_id VARCHAR(255) NOT NULL,
+      session_id VARCHAR(255),
+      mode VARCHAR(20),
+      stage VARCHAR(20) NOT NULL,
+      provider VARCHAR(50) NOT NULL DEFAULT '',
+      duration_ms REAL NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_latency_timings_created_at ON latency_timings(created_at);
+    CREATE INDEX idx_latency_timings_correlation_id
+      ON latency_timings(correlation_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS latency_timings;
+  `,
+};
+
+export default migration;
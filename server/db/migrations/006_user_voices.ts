@@ -0,0 +1,22 @@
+import type { Migration } from "./types";
+
+// Every clone lives on the server's single ElevenLabs account, so
+// ownership is tracked here and checked before a voice is changed
+const migration: Migration = {
+  id: 6,
+  name: "user_voices",
+  up: `
+    CREATE TABLE user_voices (
+      voice_id VARCHAR(64) PRIMARY KEY,
+      user_id VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_user_voices_user_id ON user_voices(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS user_voices;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from "./types";
+
+// Until now clients wrote translation memory directly, so any entry may
+// have been planted. The server refills it from DeepL's own answers.
+const migration: Migration = {
+  id: 7,
+  name: "purge_client_translation_memory",
+  up: `
+    DELETE FROM translation_memory;
+  `,
+  down: `
+    -- Purged entries can't be restored
+  `,
+};
+
+export default migration;
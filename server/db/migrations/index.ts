@@ -0,0 +1,23 @@
+import type { Migration } from "./types";
+import initialSchema from "./001_initial_schema";
+import translationMemory from "./002_translation_memory";
+import userGlossaries from "./003_user_glossaries";
+import partiallyHeardTranslations from "./004_partially_heard_translations";
+import latencyTimings from "./005_latency_timings";
+import userVoices from "./006_user_voices";
+import purgeClientTranslationMemory from "./007_purge_client_translation_memory";
+
+export type { Migration };
+
+// Append new migrations here; ids must be unique and increasing
+const migrations: Migration[] = [
+  initialSchema,
+  translationMemory,
+  userGlossaries,
+  partiallyHeardTranslations,
+  latencyTimings,
+  userVoices,
+  purgeClientTranslationMemory,
+];
+
+export default migrations;
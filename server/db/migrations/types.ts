@@ -0,0 +1,6 @@
+export interface Migration {
+  id: number;
+  name: string;
+  up: string;
+  down: string;
+}
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+import { Migrator, MigrationDriftError } from "./migrator";
+import type { Migration } from "./migrations";
+
+const migrations: Migration[] = [
+  {
+    id: 1,
+    name: "widgets",
+    up: `CREATE TABLE widgets (id INTEGER PRIMARY KEY, name TEXT NOT NULL);`,
+    down: `DROP TABLE widgets;`,
+  },
+  {
+    id: 2,
+    name: "gadgets",
+    up: `CREATE TABLE gadgets (id INTEGER PRIMARY KEY);`,
+    down: `DROP TABLE gadgets;`,
+  },
+];
+
+function createPool(): Pool {
+  // pg-mem flags CREATE TABLE IF NOT EXISTS on an existing table as
+  // unsupported, though skipping it is exactly what Postgres does
+  const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+  return new Pool();
+}
+
+async function tables(pool: Pool): Promise<string[]> {
+  const result = await pool.query(
+    `SELECT table_name FROM information_schema.tables
+     WHERE table_schema = 'public' ORDER BY table_name`,
+  );
+  return result.rows.map((row) => row.table_name);
+}
+
+describe("Migrator", () => {
+  let pool: Pool;
+
+  beforeEach(() => {
+    pool = createPool();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("applies pending migrations in order and records them", async () => {
+    const migrator = new Migrator(pool, [...migrations].reverse());
+
+    const applied = await migrator.up();
+
+    expect(applied.map((m) => m.id)).toEqual([1, 2]);
+    expect(await tables(pool)).toEqual(
+      expect.arrayContaining(["widgets", "gadgets", "schema_migrations"]),
+    );
+    const status = await migrator.status();
+    expect(status.applied.map((m) => m.id)).toEqual([1, 2]);
+    expect(status.pending).toEqual([]);
+    expect(await migrator.up()).toEqual([]);
+  });
+
+  it("stops at the target id", async () => {
+    const migrator = new Migrator(pool, migrations);
+
+    await migrator.up(1);
+
+    const status = await migrator.status();
+    expect(status.applied.map((m) => m.id)).toEqual([1]);
+    expect(status.pending.map((m) => m.id)).toEqual([2]);
+  });
+
+  it("reverts the most recent migrations", async () => {
+    const migrator = new Migrator(pool, migrations);
+    await migrator.up();
+
+    const reverted = await migrator.down();
+
+    expect(reverted.map((m) => m.id)).toEqual([2]);
+    expect(await tables(pool)).not.toContain("gadgets");
+    expect(await tables(pool)).toContain("widgets");
+    expect((await migrator.status()).pending.map((m) => m.id)).toEqual([2]);
+  });
+
+  it.each([0, -1, NaN, 1.5])("refuses to revert %s steps", async (steps) => {
+    const migrator = new Migrator(pool, migrations);
+    await migrator.up();
+
+    await expect(migrator.down(steps)).rejects.toThrow(/Invalid number/);
+    expect((await migrator.status()).applied).toHaveLength(2);
+  });
+
+  it("refuses to run when an applied migration has changed", async () => {
+    await new Migrator(pool, migrations).up(1);
+    const edited = [
+      {
+        ...migrations[0],
+        up: `CREATE TABLE widgets (id INTEGER PRIMARY KEY);`,
+      },
+      migrations[1],
+    ];
+    const migrator = new Migrator(pool, edited);
+
+    const status = await migrator.status();
+    expect(status.drifted).toEqual([
+      { id: 1, name: "widgets", reason: "checksum mismatch" },
+    ]);
+    await expect(migrator.up()).rejects.toBeInstanceOf(MigrationDriftError);
+    await expect(migrator.down()).rejects.toBeInstanceOf(MigrationDriftError);
+    expect(await tables(pool)).not.toContain("gadgets");
+  });
+
+  it("reports applied migrations that no longer exist", async () => {
+    await new Migrator(pool, migrations).up();
+    const migrator = new Migrator(pool, [migrations[0]]);
+
+    await expect(migrator.verify()).rejects.toThrow(/2_gadgets \(missing\)/);
+  });
+});
@@ -0,0 +1,169 @@
+import { createHash } from "crypto";
+import type { Pool, PoolClient } from "pg";
+import defaultMigrations, { Migration } from "./migrations";
+
+export interface AppliedMigration {
+  id: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  drifted: Array<{ id: number; name: string; reason: string }>;
+}
+
+export class MigrationDriftError extends Error {
+  constructor(public drifted: MigrationStatus["drifted"]) {
+    super(
+      `Applied migrations have drifted: ${drifted
+        .map((d) => `${d.id}_${d.name} (${d.reason})`)
+        .join(", ")}`,
+    );
+    this.name = "MigrationDriftError";
+  }
+}
+
+export function checksum(migration: Migration): string {
+  // Normalise line endings so checkouts on different platforms agree
+  return createHash("sha256")
+    .update(migration.up.replace(/\r\n/g, "\n").trim())
+    .digest("hex");
+}
+
+export class Migrator {
+  private migrations: Migration[];
+
+  constructor(
+    private pool: Pool,
+    migrations: Migration[] = defaultMigrations,
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.id - b.id);
+
+    const ids = new Set(this.migrations.map((m) => m.id));
+    if (ids.size !== this.migrations.length) {
+      throw new Error("Duplicate migration ids");
+    }
+  }
+
+  private async ensureTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        id INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  }
+
+  async status(): Promise<MigrationStatus> {
+    const client = await this.pool.connect();
+
+    try {
+      await this.ensureTable(client);
+      const result = await client.query(
+        `SELECT id, name, checksum, applied_at FROM schema_migrations ORDER BY id`,
+      );
+      const applied: AppliedMigration[] = result.rows;
+      const appliedIds = new Set(applied.map((row) => row.id));
+
+      const drifted: MigrationStatus["drifted"] = [];
+      for (const row of applied) {
+        const migration = this.migrations.find((m) => m.id === row.id);
+        if (!migration) {
+          drifted.push({ id: row.id, name: row.name, reason: "missing" });
+        } else if (checksum(migration) !== row.checksum) {
+          drifted.push({
+            id: row.id,
+            name: row.name,
+            reason: "checksum mismatch",
+          });
+        }
+      }
+
+      return {
+        applied,
+        pending: this.migrations.filter((m) => !appliedIds.has(m.id)),
+        drifted,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Throws if any applied migration no longer matches the code
+  async verify(): Promise<MigrationStatus> {
+    const status = await this.status();
+    if (status.drifted.length > 0) {
+      throw new MigrationDriftError(status.drifted);
+    }
+    return status;
+  }
+
+  async up(targetId?: number): Promise<Migration[]> {
+    const { pending } = await this.verify();
+    const toApply = pending.filter(
+      (m) => targetId === undefined || m.id <= targetId,
+    );
+
+    for (const migration of toApply) {
+      await this.runInTransaction(async (client) => {
+        await client.query(migration.up);
+        await client.query(
+          `INSERT INTO schema_migrations (id, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.id, migration.name, checksum(migration)],
+        );
+      });
+      console.log(`Applied migration ${migration.id}_${migration.name}`);
+    }
+
+    return toApply;
+  }
+
+  async down(steps: number = 1): Promise<Migration[]> {
+    // slice(-0) and slice(-NaN) would revert everything
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`Invalid number of steps to revert: ${steps}`);
+    }
+
+    const { applied } = await this.verify();
+    const toRevert = applied
+      .slice(-steps)
+      .reverse()
+      .map((row) => this.migrations.find((m) => m.id === row.id)!);
+
+    for (const migration of toRevert) {
+      await this.runInTransaction(async (client) => {
+        await client.query(migration.down);
+        await client.query(`DELETE FROM schema_migrations WHERE id = $1`, [
+          migration.id,
+        ]);
+      });
+      console.log(`Reverted migration ${migration.id}_${migration.name}`);
+    }
+
+    return toRevert;
+  }
+
+  private async runInTransaction(
+    work: (client: PoolClient) => Promise<void>,
+  ): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+      await work(client);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export default Migrator;
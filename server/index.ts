@@ -1,3 +1,4 @@
+import type { Server } from "http";
 import express from "express";
 import cors from "cors";
 import rateLimit from "express-rate-limit";
@@ -7,6 +8,15 @@ import { handleDemo } from "./routes/demo";
 import deeplRouter from "./routes/deepl";
 import openrouterRouter from "./routes/openrouter";
 import elevenlabsRouter from "./routes/elevenlabs";
+import sessionsRouter from "./routes/sessions";
+import neonRouter from "./routes/neon";
+import sttRouter from "./routes/stt";
+import translationMemoryRouter from "./routes/translation-memory";
+import ablyRouter from "./routes/ably";
+import webrtcRouter from "./routes/webrtc";
+import analyticsRouter from "./routes/analytics";
+import { RealtimeServer } from "./realtime";
+import NeonService from "./services/neon";
 
 const trustedOrigins = [
   "http://localhost:3000",
@@ -18,12 +28,26 @@ const trustedOrigins = [
 export function createServer() {
   const app = express();
 
+  // Self-hosted alternative to Ably. WebSocket upgrades never reach
+  // Express middleware, so whoever owns the HTTP server hands them over
+  // with attachRealtime().
+  app.locals.realtime = new RealtimeServer();
+
+  // Old sessions are swept server-side; there's no route for it
+  if (process.env.DATABASE_URL) {
+    NeonService.startCleanupSchedule();
+  }
+
   // Security: Rate limiting
   app.use(rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // limit each IP to 100 requests per windowMs
     standardHeaders: true,
     legacyHeaders: false,
+    // Live captions transcribe and translate every couple of seconds;
+    // limited below
+    skip: (req) =>
+      /^\/api\/(stt(\/|$)|deepl\/translate\/interim$)/.test(req.path),
   }));
 
   // Security: Restrict CORS
@@ -49,7 +73,13 @@ export function createServer() {
       if (!authHeader) return res.status(401).json({ error: "Missing auth token" });
       const token = authHeader.replace("Bearer ", "");
       try {
-        jwt.verify(token, process.env.STACK_SECRET_SERVER_KEY || "secret");
+        const payload = jwt.verify(
+          token,
+          process.env.STACK_SECRET_SERVER_KEY || "secret",
+        );
+        // Expose the authenticated user to routers
+        res.locals.userId =
+          typeof payload === "string" ? payload : payload.sub;
         next();
       } catch (err) {
         return res.status(401).json({ error: "Invalid or expired token" });
@@ -65,9 +95,31 @@ export function createServer() {
   });
 
   // Removed demo route registration
+  app.use("/api/deepl/translate/interim", rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: 60, // a caption update every 2s while talking, with room to spare
+    standardHeaders: true,
+    legacyHeaders: false,
+  }));
   app.use("/api/deepl", deeplRouter);
   app.use("/api/openrouter", openrouterRouter);
   app.use("/api/elevenlabs", elevenlabsRouter);
+  app.use("/api/sessions", sessionsRouter);
+  app.use("/api/neon", neonRouter);
+  app.use("/api/stt", rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: 60, // partials every 2s while talking, plus final transcripts
+    standardHeaders: true,
+    legacyHeaders: false,
+  }), sttRouter);
+  app.use("/api/translation-memory", translationMemoryRouter);
+  app.use("/api/ably", ablyRouter);
+  app.use("/api/webrtc", webrtcRouter);
+  app.use("/api/analytics", analyticsRouter);
 
   return app;
 }
+
+export function attachRealtime(app: express.Express, server: Server) {
+  (app.locals.realtime as RealtimeServer).attach(server);
+}
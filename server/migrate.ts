@@ -0,0 +1,37 @@
+import { closePool, getPool } from "./db";
+import Migrator from "./db/migrator";
+
+// Usage: npm run migrate -- [up [targetId] | down [steps] | status]
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+  const migrator = new Migrator(getPool());
+
+  switch (command) {
+    case "up": {
+      const applied = await migrator.up(arg ? parseInt(arg, 10) : undefined);
+      if (applied.length === 0) console.log("Database is up to date");
+      break;
+    }
+    case "down":
+      await migrator.down(arg ? parseInt(arg, 10) : 1);
+      break;
+    case "status": {
+      const { applied, pending, drifted } = await migrator.status();
+      applied.forEach((m) => console.log(`applied  ${m.id}_${m.name}`));
+      pending.forEach((m) => console.log(`pending  ${m.id}_${m.name}`));
+      drifted.forEach((m) =>
+        console.log(`drifted  ${m.id}_${m.name} (${m.reason})`),
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown migrate command: ${command}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -1,5 +1,6 @@
 import path from "path";
-import { createServer } from "./index";
+import { attachRealtime, createServer } from "./index";
+import { assertSchemaCurrent } from "./db";
 import * as express from "express";
 
 const app = createServer();
@@ -16,9 +17,19 @@ app.get("*", (req, res) => {
   res.sendFile(path.join(distPath, "index.html"));
 });
 
-app.listen(port, () => {
+if (process.env.DATABASE_URL) {
+  try {
+    await assertSchemaCurrent();
+  } catch (error) {
+    console.error("Refusing to start:", (error as Error).message);
+    process.exit(1);
+  }
+}
+
+const server = app.listen(port, () => {
   // Server started
 });
+attachRealtime(app, server);
 
 process.on("SIGTERM", () => {
   process.exit(0);
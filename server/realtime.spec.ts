@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer as createHttpServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { WebSocket } from "ws";
+import type { PresenceMember, RealtimeMessage } from "@shared/api";
+import { WebSocketTransport } from "../client/lib/services/realtime-websocket";
+import { attachRealtime, createServer } from "./index";
+
+// Tokens go in the URL below instead of coming from Stack
+vi.mock("../client/lib/services/auth", () => ({
+  getAuthHeaders: async () => ({}),
+}));
+
+// Node 20 has no global WebSocket; ws speaks the same browser API
+vi.stubGlobal("WebSocket", WebSocket);
+
+function token(userId: string): string {
+  return jwt.sign(
+    { sub: userId },
+    process.env.STACK_SECRET_SERVER_KEY || "secret",
+  );
+}
+
+// Resolves with the first value a subscription delivers that matches
+function next<T>(
+  subscribe: (callback: (value: T) => void) => () => void,
+  matches: (value: T) => boolean = () => true,
+): Promise<T> {
+  return new Promise((resolve) => {
+    const unsubscribe = subscribe((value) => {
+      if (!matches(value)) return;
+      unsubscribe();
+      resolve(value);
+    });
+  });
+}
+
+describe("self-hosted realtime transport", () => {
+  let server: Server;
+  let baseUrl: string;
+  let sessionId: string;
+  const transports: WebSocketTransport[] = [];
+
+  const api = async (path: string, userId: string) => {
+    const response = await fetch(`${baseUrl}/api${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token(userId)}`,
+        "Content-Type": "application/json",
+      },
+      body: "{}",
+    });
+    expect(response.ok).toBe(true);
+    return response.json();
+  };
+
+  const connect = async (userId: string) => {
+    const transport = new WebSocketTransport(
+      `${baseUrl.replace("http", "ws")}/api/realtime?token=${token(userId)}`,
+    );
+    transports.push(transport);
+    await transport.connect(sessionId);
+    return transport;
+  };
+
+  beforeAll(async () => {
+    const app = createServer();
+    server = createHttpServer(app);
+    attachRealtime(app, server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const session = await api("/sessions", "host");
+    await api(`/sessions/${session.code}/join`, "guest");
+    sessionId = session.sessionId;
+  });
+
+  afterAll(async () => {
+    transports.forEach((transport) => transport.close());
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("relays messages, presence and history between participants", async () => {
+    const host = await connect("host");
+    const guest = await connect("guest");
+    expect(host.getClientId()).toBe("host");
+    expect(guest.getClientId()).toBe("guest");
+
+    const channelName = `session:${sessionId}`;
+    const hostChannel = host.channel(channelName);
+    const guestChannel = guest.channel(channelName);
+
+    // Presence: the guest watches the host arrive
+    const entered = next<PresenceMember>((callback) =>
+      guestChannel.presence.subscribe(callback),
+    );
+    // subscribe() attaches in the background; requests on one socket are
+    // answered in order, so this returns once the attach has landed
+    await guestChannel.presence.get();
+    await hostChannel.presence.enter({ username: "Host" });
+    expect(await entered).toEqual({
+      clientId: "host",
+      action: "enter",
+      data: { username: "Host" },
+    });
+    expect(await guestChannel.presence.get()).toEqual([
+      { clientId: "host", action: "present", data: { username: "Host" } },
+    ]);
+
+    // Publish: the guest receives what the host sends
+    const received = next<RealtimeMessage>((callback) =>
+      guestChannel.subscribe("greeting", callback),
+    );
+    await hostChannel.publish("greeting", { text: "hello" });
+    expect(await received).toMatchObject({
+      name: "greeting",
+      data: { text: "hello" },
+      clientId: "host",
+    });
+
+    // History: most recent first
+    await hostChannel.publish("greeting", { text: "again" });
+    const history = await guestChannel.history(10);
+    expect(history.map((message) => message.data.text)).toEqual([
+      "again",
+      "hello",
+    ]);
+
+    // Leaving: closing the socket makes the host leave for everyone
+    const left = next<PresenceMember>(
+      (callback) => guestChannel.presence.subscribe(callback),
+      (member) => member.action === "leave",
+    );
+    host.close();
+    expect(await left).toMatchObject({ clientId: "host", action: "leave" });
+    expect(await guestChannel.presence.get()).toEqual([]);
+  });
+
+  it("keeps people outside the session off its channels", async () => {
+    const outsider = await connect("outsider");
+    const channel = outsider.channel(`session:${sessionId}`);
+
+    await expect(channel.publish("greeting", "hi")).rejects.toThrow(/403/);
+    await expect(channel.history(10)).rejects.toThrow(/403/);
+  });
+});
@@ -0,0 +1,164 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import jwt from "jsonwebtoken";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { RealtimeClientFrame, RealtimeServerFrame } from "@shared/api";
+import RealtimeHubService, {
+  RealtimeConnection,
+  RealtimeHub,
+  RealtimeHubError,
+} from "./services/realtime-hub";
+
+export const REALTIME_PATH = "/api/realtime";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Same check as the /api JWT middleware. Browsers can't send headers on
+// a WebSocket upgrade, so the token comes in the query string.
+function authenticate(req: IncomingMessage, url: URL): string | null {
+  const token =
+    url.searchParams.get("token") ||
+    req.headers["authorization"]?.replace("Bearer ", "");
+  if (!token) return null;
+
+  try {
+    const payload = jwt.verify(
+      token,
+      process.env.STACK_SECRET_SERVER_KEY || "secret",
+    );
+    return (typeof payload === "string" ? payload : payload.sub) || null;
+  } catch {
+    return null;
+  }
+}
+
+// WebSocket front end for RealtimeHub, speaking the frames in @shared/api
+export class RealtimeServer {
+  private wss = new WebSocketServer({ noServer: true });
+  private alive: WeakSet<WebSocket> = new WeakSet();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private hub: RealtimeHub = RealtimeHubService) {}
+
+  // Hook into an HTTP server's upgrade event. Upgrades for other paths
+  // (e.g. Vite's HMR socket) are left alone.
+  attach(server: Server): void {
+    server.on("upgrade", (req, socket, head) => {
+      this.handleUpgrade(req, socket, head);
+    });
+    server.on("close", () => this.close());
+  }
+
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== REALTIME_PATH) return;
+
+    const clientId = authenticate(req, url);
+    if (!clientId) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws: WebSocket) => {
+      this.handleConnection(ws, clientId);
+    });
+  }
+
+  private handleConnection(ws: WebSocket, clientId: string): void {
+    this.startHeartbeat();
+    this.alive.add(ws);
+
+    const connection: RealtimeConnection = {
+      clientId,
+      send: (frame: RealtimeServerFrame) => {
+        if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(frame));
+      },
+    };
+
+    ws.on("pong", () => this.alive.add(ws));
+    ws.on("message", (raw: Buffer) =>
+      this.handleFrame(connection, raw.toString()),
+    );
+    ws.on("close", () => this.hub.disconnect(connection));
+
+    connection.send({ action: "connected", clientId });
+  }
+
+  private handleFrame(connection: RealtimeConnection, raw: string): void {
+    let frame: RealtimeClientFrame;
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      connection.send({ action: "error", status: 400, error: "Invalid JSON" });
+      return;
+    }
+
+    try {
+      const result = this.dispatch(connection, frame);
+      connection.send({ action: "reply", id: frame.id, result });
+    } catch (error) {
+      connection.send({
+        action: "error",
+        id: frame.id,
+        status: error instanceof RealtimeHubError ? error.status : 500,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private dispatch(connection: RealtimeConnection, frame: RealtimeClientFrame) {
+    switch (frame.action) {
+      case "attach":
+        return this.hub.attach(connection, frame.channel);
+      case "detach":
+        return this.hub.detach(connection, frame.channel);
+      case "publish":
+        return this.hub.publish(
+          connection,
+          frame.channel,
+          frame.name,
+          frame.data,
+        );
+      case "presence":
+        return this.hub.presence(
+          connection,
+          frame.channel,
+          frame.presence,
+          frame.data,
+        );
+      case "presence.get":
+        return this.hub.getPresence(connection, frame.channel);
+      case "history":
+        return this.hub.history(connection, frame.channel, frame.limit);
+      default:
+        throw new RealtimeHubError("Unknown action", 400);
+    }
+  }
+
+  // Sockets that die without a close frame (sleeping laptop, lost Wi-Fi)
+  // are terminated here, which makes their presence leave
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      this.wss.clients.forEach((ws: WebSocket) => {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    // Don't keep the process alive just for housekeeping
+    this.heartbeat.unref?.();
+  }
+
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.wss.clients.forEach((ws: WebSocket) => ws.terminate());
+  }
+}
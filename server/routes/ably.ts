@@ -0,0 +1,72 @@
+import express from "express";
+import { query, validationResult } from "express-validator";
+import Ably from "ably";
+import SessionRegistry from "../services/session-registry";
+
+const router = express.Router();
+
+const TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+let rest: Ably.Rest | null = null;
+
+function getRest(): Ably.Rest {
+  if (!rest) {
+    const key = process.env.ABLY_API_KEY;
+    if (!key) throw new Error("Ably API key not configured");
+    rest = new Ably.Rest({ key });
+  }
+  return rest;
+}
+
+// Channels a participant needs for one session, and nothing else
+function sessionCapability(
+  userId: string,
+  sessionId?: string,
+): Record<string, Ably.CapabilityOp[]> {
+  if (!sessionId) {
+    // Ably won't issue a token with an empty capability, so before a
+    // session exists the client can only listen on its own channel
+    return { [`user:${userId}`]: ["subscribe"] };
+  }
+
+  return {
+    [`session:${sessionId}`]: ["publish", "subscribe", "presence", "history"],
+    [`translations:${sessionId}`]: ["publish", "subscribe", "history"],
+    [`webrtc:${sessionId}`]: ["publish", "subscribe"],
+  };
+}
+
+// Ably's authUrl: returns a signed token request for the signed-in user
+router.get(
+  "/token",
+  query("sessionId").optional().isString().trim().notEmpty(),
+  async (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const userId = res.locals.userId;
+    if (!userId) return res.status(401).json({ error: "Missing user" });
+
+    const sessionId = req.query.sessionId as string | undefined;
+    if (sessionId && !SessionRegistry.isParticipant(sessionId, userId)) {
+      return res
+        .status(403)
+        .json({ error: "Not a participant in this session" });
+    }
+
+    try {
+      const tokenRequest = await getRest().auth.createTokenRequest({
+        clientId: userId,
+        capability: sessionCapability(userId, sessionId),
+        ttl: TOKEN_TTL_MS,
+      });
+      res.json(tokenRequest);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  },
+);
+
+export default router;
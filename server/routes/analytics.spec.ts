@@ -0,0 +1,189 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { newDb, type IMemoryDb } from "pg-mem";
+import type { StageTiming } from "@shared/api";
+import latencyTimings from "../db/migrations/005_latency_timings";
+import analyticsRouter from "./analytics";
+
+const { pool } = vi.hoisted(() => ({ pool: { current: null as any } }));
+vi.mock("../db", () => ({ getPool: () => pool.current }));
+
+const HOUR = 60 * 60 * 1000;
+
+// pg-mem has no percentile_cont and no way to register an aggregate.
+// Everything else in the query runs as written; each percentile is
+// gathered with array_agg instead and finished off the way Postgres
+// does it, interpolating between the two nearest values.
+const PERCENTILE =
+  /percentile_cont\(([\d.]+)\) WITHIN GROUP \(ORDER BY (\w+)\) AS (\w+)/g;
+
+function percentileCont(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = fraction * (sorted.length - 1);
+  const below = sorted[Math.floor(position)];
+  const above = sorted[Math.ceil(position)];
+  return below + (above - below) * (position - Math.floor(position));
+}
+
+function emulatePercentiles(db: IMemoryDb): void {
+  db.public.interceptQueries((sql) => {
+    const percentiles = [...sql.matchAll(PERCENTILE)];
+    if (percentiles.length === 0) return null;
+
+    const rows = db.public.many(sql.replace(PERCENTILE, "array_agg($2) AS $3"));
+    return rows.map((row) => {
+      for (const [, fraction, , column] of percentiles) {
+        row[column] = percentileCont(row[column], Number(fraction));
+      }
+      return row;
+    });
+  });
+}
+
+function startApp(): Promise<Server> {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    res.locals.userId = req.headers["x-user"];
+    next();
+  });
+  app.use("/api/analytics", analyticsRouter);
+  const server = createServer(app);
+  return new Promise((resolve) => server.listen(0, () => resolve(server)));
+}
+
+describe("Latency analytics", () => {
+  let app: Server;
+  let inserts: string[];
+
+  const url = (path: string) =>
+    `http://127.0.0.1:${(app.address() as AddressInfo).port}/api/analytics${path}`;
+
+  const report = (body: object) =>
+    fetch(url("/performance"), {
+      method: "POST",
+      headers: { "x-user": "alice", "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const utterance = (correlationId: string, timings: StageTiming[]) =>
+    report({ correlationId, sessionId: "session_1", mode: "just-me", timings });
+
+  const rows = async () =>
+    (
+      await pool.current.query(
+        `SELECT correlation_id, user_id, session_id, mode, stage, provider,
+                duration_ms
+         FROM latency_timings ORDER BY id`,
+      )
+    ).rows;
+
+  beforeAll(async () => {
+    app = await startApp();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => app.close(resolve));
+  });
+
+  beforeEach(async () => {
+    const db = newDb();
+    emulatePercentiles(db);
+    inserts = [];
+    db.public.interceptQueries((sql) => {
+      if (/^\s*INSERT INTO latency_timings/.test(sql)) inserts.push(sql);
+      return null;
+    });
+    const { Pool } = db.adapters.createPg();
+    pool.current = new Pool();
+    await pool.current.query(latencyTimings.up);
+  });
+
+  it("stores an utterance's timings in one insert", async () => {
+    const response = await utterance("utt-1", [
+      { stage: "stt", provider: "whisper", durationMs: 420 },
+      { stage: "translate", provider: "deepl", durationMs: 180.5 },
+      { stage: "playback", durationMs: 900 },
+    ]);
+
+    expect(response.status).toBe(204);
+    expect(inserts).toHaveLength(1);
+    expect(await rows()).toEqual(
+      [
+        ["stt", "whisper", 420],
+        ["translate", "deepl", 180.5],
+        ["playback", "", 900],
+      ].map(([stage, provider, duration_ms]) => ({
+        correlation_id: "utt-1",
+        user_id: "alice",
+        session_id: "session_1",
+        mode: "just-me",
+        stage,
+        provider,
+        duration_ms,
+      })),
+    );
+  });
+
+  it("refuses timings that can't be right", async () => {
+    for (const timings of [
+      [],
+      [{ stage: "nap", durationMs: 10 }],
+      [{ stage: "stt", durationMs: -1 }],
+      [{ stage: "stt", durationMs: 11 * 60 * 1000 }],
+    ]) {
+      expect((await report({ correlationId: "utt-1", timings })).status).toBe(
+        400,
+      );
+    }
+    expect(await rows()).toEqual([]);
+  });
+
+  it("reports p50 and p95 per stage and provider", async () => {
+    for (const [i, durationMs] of [100, 400, 200, 300].entries()) {
+      await utterance(`utt-${i}`, [
+        { stage: "stt", provider: "whisper", durationMs },
+        { stage: "translate", provider: "deepl", durationMs: 50 },
+      ]);
+    }
+
+    const breakdown = await (await fetch(url("/performance"))).json();
+
+    expect(breakdown.stages).toEqual([
+      { stage: "stt", provider: "whisper", count: 4, p50: 250, p95: 385 },
+      { stage: "translate", provider: "deepl", count: 4, p50: 50, p95: 50 },
+    ]);
+  });
+
+  it("only counts timings from the window asked for", async () => {
+    await utterance("utt-1", [{ stage: "stt", durationMs: 100 }]);
+    await pool.current.query(
+      `INSERT INTO latency_timings
+         (correlation_id, user_id, stage, duration_ms, created_at)
+       VALUES ('utt-0', 'alice', 'stt', 300, $1)`,
+      [new Date(Date.now() - 48 * HOUR)],
+    );
+
+    const day = await (await fetch(url("/performance"))).json();
+    const week = await (await fetch(url("/performance?hours=168"))).json();
+
+    expect(day.stages).toEqual([
+      { stage: "stt", provider: "", count: 1, p50: 100, p95: 100 },
+    ]);
+    expect(week.stages).toEqual([
+      { stage: "stt", provider: "", count: 2, p50: 200, p95: 290 },
+    ]);
+    expect(Date.parse(week.since)).toBeCloseTo(Date.now() - 168 * HOUR, -4);
+    expect((await fetch(url("/performance?hours=0"))).status).toBe(400);
+  });
+});
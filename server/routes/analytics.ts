@@ -0,0 +1,69 @@
+import express from "express";
+import { body, query, validationResult } from "express-validator";
+import type { LatencyReport, LatencyStage } from "@shared/api";
+import LatencyService from "../services/latency";
+
+const router = express.Router();
+
+const STAGES: LatencyStage[] = [
+  "record",
+  "stt",
+  "translate",
+  "enhance",
+  "tts_first_byte",
+  "playback",
+];
+
+// Longer than any utterance could take; anything above is a clock bug
+const MAX_DURATION_MS = 10 * 60 * 1000;
+
+router.post(
+  "/performance",
+  body("correlationId").isString().trim().notEmpty().isLength({ max: 64 }),
+  body("sessionId").optional().isString().isLength({ max: 255 }),
+  body("mode").optional().isIn(["just-me", "talk-together"]),
+  body("timings").isArray({ min: 1, max: 50 }),
+  body("timings.*.stage").isIn(STAGES),
+  body("timings.*.provider").optional().isString().isLength({ max: 50 }),
+  body("timings.*.durationMs")
+    .isFloat({ min: 0, max: MAX_DURATION_MS })
+    .toFloat(),
+  async (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      await LatencyService.record(res.locals.userId, req.body as LatencyReport);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  },
+);
+
+// p50/p95 per stage and provider over the last `hours` (default a day)
+router.get(
+  "/performance",
+  query("hours").optional().isInt({ min: 1, max: 720 }).toInt(),
+  async (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const hours = Number(req.query.hours ?? 24);
+    try {
+      res.json(
+        await LatencyService.getBreakdown(
+          new Date(Date.now() - hours * 60 * 60 * 1000),
+        ),
+      );
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  },
+);
+
+export default router;
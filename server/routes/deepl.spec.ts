@@ -0,0 +1,160 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import express from "express";
+import { createServer, type RequestListener, type Server } from "http";
+import type { AddressInfo } from "net";
+import { newDb } from "pg-mem";
+import TranslationMemory from "../services/translation-memory";
+import deeplRouter from "./deepl";
+import translationMemoryRouter from "./translation-memory";
+
+const { pool } = vi.hoisted(() => ({ pool: { current: null as any } }));
+vi.mock("../db", () => ({ getPool: () => pool.current }));
+
+// 002_translation_memory without the pg_trgm index, which pg-mem lacks
+const TRANSLATION_MEMORY_TABLE = `
+  CREATE TABLE translation_memory (
+    id SERIAL PRIMARY KEY,
+    source_text TEXT NOT NULL,
+    source_language VARCHAR(10) NOT NULL,
+    target_language VARCHAR(10) NOT NULL,
+    formality VARCHAR(20) NOT NULL DEFAULT 'default',
+    glossary_version VARCHAR(64) NOT NULL DEFAULT '',
+    translated_text TEXT NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    enhanced BOOLEAN DEFAULT false,
+    hit_count INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (source_language, target_language, formality, glossary_version, source_text)
+  );
+`;
+
+function listen(handler: RequestListener) {
+  const server = createServer(handler);
+  return new Promise<Server>((resolve) =>
+    server.listen(0, () => resolve(server)),
+  );
+}
+
+function url(server: Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe("DeepL translation memory", () => {
+  const upstreamTexts: string[] = [];
+  let stub: Server;
+  let app: Server;
+
+  const post = (path: string, body: object) =>
+    fetch(`${url(app)}/api${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const rows = async () =>
+    (await pool.current.query(`SELECT * FROM translation_memory`)).rows;
+
+  beforeAll(async () => {
+    // Stands in for api.deepl.com
+    stub = await listen(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const { text } = JSON.parse(body);
+      upstreamTexts.push(...text);
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          translations: text.map((t: string) => ({
+            text: `[de] ${t}`,
+            detected_source_language: "EN",
+          })),
+        }),
+      );
+    });
+
+    const server = express();
+    server.use(express.json());
+    server.use("/api/deepl", deeplRouter);
+    server.use("/api/translation-memory", translationMemoryRouter);
+    app = await listen(server);
+
+    process.env.DEEPL_API_URL = url(stub);
+    process.env.DEEPL_API_KEY = "test-key";
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => app.close(resolve));
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  beforeEach(async () => {
+    upstreamTexts.length = 0;
+    TranslationMemory.clearCache();
+    const { Pool } = newDb().adapters.createPg();
+    pool.current = new Pool();
+    await pool.current.query(TRANSLATION_MEMORY_TABLE);
+  });
+
+  it("remembers DeepL's answer and serves repeats from memory", async () => {
+    const request = { text: "Good morning", target_lang: "DE" };
+
+    const first = await (await post("/deepl/translate", request)).json();
+    await vi.waitFor(async () => expect(await rows()).toHaveLength(1));
+    TranslationMemory.clearCache();
+    const second = await (await post("/deepl/translate", request)).json();
+
+    expect(first.translations[0].text).toBe("[de] Good morning");
+    expect(second.translations[0]).toMatchObject({
+      text: "[de] Good morning",
+      from_memory: true,
+    });
+    expect(upstreamTexts).toEqual(["Good morning"]);
+    expect(await rows()).toMatchObject([
+      { source_text: "good morning", provider: "deepl", hit_count: 1 },
+    ]);
+  });
+
+  it("keeps results out of memory when asked not to remember", async () => {
+    await post("/deepl/translate", {
+      text: "Good mor",
+      target_lang: "DE",
+      remember: false,
+    });
+    await post("/deepl/translate", { text: "Good mor", target_lang: "DE" });
+
+    expect(upstreamTexts).toEqual(["Good mor", "Good mor"]);
+  });
+
+  it("translates live captions without remembering them", async () => {
+    const response = await post("/deepl/translate/interim", {
+      text: "Good mor",
+      target_lang: "DE",
+    });
+    await post("/deepl/translate", { text: "Good mor", target_lang: "DE" });
+
+    expect(response.status).toBe(200);
+    expect(upstreamTexts).toEqual(["Good mor", "Good mor"]);
+  });
+
+  it("doesn't let clients write entries", async () => {
+    const response = await post("/translation-memory", {
+      text: "I will not pay",
+      sourceLanguage: "en",
+      targetLanguage: "de",
+      translatedText: "Ich werde zahlen",
+      provider: "deepl",
+    });
+
+    expect(response.status).toBe(404);
+    expect(await rows()).toEqual([]);
+  });
+});
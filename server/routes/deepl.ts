@@ -1,53 +1,344 @@
 import express from "express";
-import DeepL from "deepl";
+import { body, param, validationResult } from "express-validator";
+import NeonService from "../services/neon";
+import TranslationMemory from "../services/translation-memory";
+import type {
+  GlossaryEntry,
+  GlossaryLanguagePair,
+  TranslationMemoryKey,
+} from "@shared/api";
 
 const router = express.Router();
 
-router.post("/translate", async (req, res) => {
-  const { text, target_lang, source_lang, formality, preserve_formatting, tag_handling } = req.body;
+class DeepLError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "DeepLError";
+  }
+}
+
+// Free-tier keys end in ":fx" and live on a different host
+function apiUrl(apiKey: string, path: string): string {
+  const base =
+    process.env.DEEPL_API_URL ||
+    (apiKey.endsWith(":fx")
+      ? "https://api-free.deepl.com"
+      : "https://api.deepl.com");
+  return `${base.replace(/\/$/, "")}/v2${path}`;
+}
+
+async function deepl(path: string, init: RequestInit = {}): Promise<Response> {
   const apiKey = process.env.DEEPL_API_KEY;
-  if (!apiKey) return res.status(500).json({ error: "DeepL API key not configured" });
+  if (!apiKey) throw new DeepLError("DeepL API key not configured", 500);
+
+  const response = await fetch(apiUrl(apiKey, path), {
+    ...init,
+    headers: {
+      Authorization: `DeepL-Auth-Key ${apiKey}`,
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      ...(init.headers || {}),
+    },
+  });
+
+  if (!response.ok) {
+    throw new DeepLError(await response.text(), response.status);
+  }
+  return response;
+}
+
+// Glossaries use bare lowercase codes: "EN-US" -> "en"
+function toGlossaryLanguage(code: string): string {
+  return code.split(/[-_]/)[0].toLowerCase();
+}
+
+function sendError(res: express.Response, error: unknown) {
+  const status = error instanceof DeepLError ? error.status : 500;
+  res.status(status).json({ error: (error as Error).message });
+}
+
+function sendValidationErrors(req: express.Request, res: express.Response) {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({ errors: errors.array() });
+  return true;
+}
+
+// Live captions come in on /translate/interim, which is rate limited on
+// its own (see index.ts) and never remembered
+router.post(["/translate", "/translate/interim"], async (req, res) => {
+  const interim = req.path === "/translate/interim";
+  const {
+    text,
+    target_lang,
+    source_lang,
+    formality,
+    preserve_formatting,
+    tag_handling,
+    glossary_id,
+    remember,
+  } = req.body;
+  const texts = Array.isArray(text) ? text : [text];
+
+  // Memory is keyed on exactly what DeepL is asked, and only ever holds
+  // DeepL's own answers, so a client can't plant translations in it
+  const memoryKey: TranslationMemoryKey | null =
+    texts.length === 1 && typeof texts[0] === "string" && !tag_handling
+      ? {
+          text: texts[0],
+          sourceLanguage: source_lang || "auto",
+          targetLanguage: target_lang,
+          formality,
+          glossaryVersion: glossary_id,
+        }
+      : null;
+
   try {
-    const translator = new DeepL.Translator(apiKey);
-    const result = await translator.translateText(text, source_lang, target_lang, {
-      formality,
-      preserveFormatting: preserve_formatting,
-      tagHandling: tag_handling
+    if (glossary_id) {
+      // Glossary ids are unguessable but still per user
+      const glossary = await NeonService.getUserGlossary(
+        res.locals.userId,
+        glossary_id,
+      );
+      if (!glossary) {
+        return res.status(404).json({ error: "Glossary not found" });
+      }
+      if (!source_lang) {
+        return res
+          .status(400)
+          .json({ error: "source_lang is required with a glossary" });
+      }
+    }
+
+    if (memoryKey) {
+      const match = await TranslationMemory.lookup(memoryKey).catch((error) => {
+        // Memory is an optimisation; never block a translation on it
+        console.warn("Translation memory unavailable:", error);
+        return null;
+      });
+      if (match) {
+        return res.json({
+          translations: [
+            {
+              text: match.translatedText,
+              detected_source_language: source_lang || "",
+              from_memory: true,
+            },
+          ],
+        });
+      }
+    }
+
+    const response = await deepl("/translate", {
+      method: "POST",
+      body: JSON.stringify({
+        text: texts,
+        target_lang,
+        source_lang,
+        formality,
+        preserve_formatting,
+        tag_handling,
+        glossary_id,
+      }),
     });
-    res.json({ translations: Array.isArray(result) ? result.map(r => ({ detected_source_language: r.detectedSourceLang, text: r.text })) : [{ detected_source_language: result.detectedSourceLang, text: result.text }] });
+    const data = await response.json();
+
+    // Partial sentences (live captions) aren't worth remembering
+    const translated = data.translations?.[0]?.text;
+    if (
+      memoryKey &&
+      !interim &&
+      remember !== false &&
+      typeof translated === "string"
+    ) {
+      TranslationMemory.store({
+        ...memoryKey,
+        translatedText: translated,
+        provider: "deepl",
+        enhanced: false,
+      }).catch((error) =>
+        console.warn("Failed to store translation memory:", error),
+      );
+    }
+
+    res.json(data);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
 router.get("/usage", async (_req, res) => {
-  const apiKey = process.env.DEEPL_API_KEY;
-  if (!apiKey) return res.status(500).json({ error: "DeepL API key not configured" });
   try {
-    const translator = new DeepL.Translator(apiKey);
-    const usage = await translator.getUsage();
-    res.json({ character_count: usage.character.count, character_limit: usage.character.limit });
+    const response = await deepl("/usage");
+    res.json(await response.json());
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
 router.get("/languages", async (req, res) => {
-  const apiKey = process.env.DEEPL_API_KEY;
-  if (!apiKey) return res.status(500).json({ error: "DeepL API key not configured" });
-  const type = req.query.type;
+  const type = req.query.type === "source" ? "source" : "target";
+  try {
+    const response = await deepl(`/languages?type=${type}`);
+    res.json(await response.json());
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Glossaries
+router.get("/glossaries", async (_req, res) => {
   try {
-    const translator = new DeepL.Translator(apiKey);
-    if (type === "source") {
-      const langs = await translator.getSourceLanguages();
-      res.json(langs);
-    } else {
-      const langs = await translator.getTargetLanguages();
-      res.json(langs);
+    res.json(await NeonService.getUserGlossaries(res.locals.userId));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+router.post(
+  "/glossaries",
+  body("name").isString().trim().notEmpty().isLength({ max: 255 }),
+  body("sourceLanguage").isString().trim().notEmpty(),
+  body("targetLanguage").isString().trim().notEmpty(),
+  body("entries").isString().notEmpty(),
+  body("format").isIn(["csv", "tsv"]),
+  async (req: express.Request, res: express.Response) => {
+    if (sendValidationErrors(req, res)) return;
+
+    const { name, sourceLanguage, targetLanguage, entries, format } = req.body;
+    const source = toGlossaryLanguage(sourceLanguage);
+    const target = toGlossaryLanguage(targetLanguage);
+
+    try {
+      const response = await deepl("/glossaries", {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          source_lang: source,
+          target_lang: target,
+          entries,
+          entries_format: format,
+        }),
+      });
+      const created = await response.json();
+
+      const { glossary, replaced } = await NeonService.saveUserGlossary({
+        glossary_id: created.glossary_id,
+        user_id: res.locals.userId,
+        name,
+        source_language: source,
+        target_language: target,
+        entry_count: created.entry_count ?? 0,
+      }).catch(async (error) => {
+        // Don't leave an untracked glossary counting against the quota
+        await deepl(`/glossaries/${encodeURIComponent(created.glossary_id)}`, {
+          method: "DELETE",
+        }).catch(() => {});
+        throw error;
+      });
+
+      // Glossaries can't be edited in place, so a new one supersedes the old
+      if (replaced) {
+        await deepl(`/glossaries/${encodeURIComponent(replaced)}`, {
+          method: "DELETE",
+        }).catch((error) =>
+          console.warn("Failed to delete replaced glossary:", error),
+        );
+      }
+
+      res.status(201).json(glossary);
+    } catch (error) {
+      sendError(res, error);
     }
+  },
+);
+
+router.get("/glossaries/language-pairs", async (_req, res) => {
+  try {
+    const response = await deepl("/glossary-language-pairs");
+    const data = await response.json();
+    const pairs: GlossaryLanguagePair[] = (data.supported_languages || []).map(
+      (pair: { source_lang: string; target_lang: string }) => ({
+        sourceLanguage: pair.source_lang,
+        targetLanguage: pair.target_lang,
+      }),
+    );
+    res.json(pairs);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
-export default router;
\ No newline at end of file
+router.get(
+  "/glossaries/:glossaryId/entries",
+  param("glossaryId").isString().trim().notEmpty(),
+  async (req: express.Request, res: express.Response) => {
+    if (sendValidationErrors(req, res)) return;
+
+    try {
+      const glossary = await NeonService.getUserGlossary(
+        res.locals.userId,
+        req.params.glossaryId,
+      );
+      if (!glossary) {
+        return res.status(404).json({ error: "Glossary not found" });
+      }
+
+      const response = await deepl(
+        `/glossaries/${encodeURIComponent(glossary.glossary_id)}/entries`,
+        { headers: { Accept: "text/tab-separated-values" } },
+      );
+      const entries: GlossaryEntry[] = (await response.text())
+        .split("\n")
+        .filter((line) => line.includes("\t"))
+        .map((line) => {
+          const [source, target] = line.split("\t");
+          return { source, target: target.replace(/\r$/, "") };
+        });
+      res.json(entries);
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+router.delete(
+  "/glossaries/:glossaryId",
+  param("glossaryId").isString().trim().notEmpty(),
+  async (req: express.Request, res: express.Response) => {
+    if (sendValidationErrors(req, res)) return;
+
+    try {
+      const glossary = await NeonService.getUserGlossary(
+        res.locals.userId,
+        req.params.glossaryId,
+      );
+      if (!glossary) {
+        return res.status(404).json({ error: "Glossary not found" });
+      }
+
+      try {
+        await deepl(`/glossaries/${encodeURIComponent(glossary.glossary_id)}`, {
+          method: "DELETE",
+        });
+      } catch (error) {
+        // Already gone upstream; still drop our record
+        if (!(error instanceof DeepLError && error.status === 404)) {
+          throw error;
+        }
+      }
+
+      await NeonService.deleteUserGlossary(
+        res.locals.userId,
+        glossary.glossary_id,
+      );
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  },
+);
+
+export default router;
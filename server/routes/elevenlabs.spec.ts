@@ -0,0 +1,210 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import express from "express";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { newDb } from "pg-mem";
+import userVoices from "../db/migrations/006_user_voices";
+import elevenlabsRouter from "./elevenlabs";
+
+const { pool } = vi.hoisted(() => ({ pool: { current: null as any } }));
+vi.mock("../db", () => ({ getPool: () => pool.current }));
+
+interface StubRequest {
+  method: string;
+  url: string;
+  apiKey: string | undefined;
+  body: string;
+}
+
+// Stands in for api.elevenlabs.io
+function startStub(requests: StubRequest[]): Promise<Server> {
+  const server = createServer(async (req: IncomingMessage, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    requests.push({
+      method: req.method!,
+      url: req.url!,
+      apiKey: req.headers["xi-api-key"] as string | undefined,
+      body,
+    });
+
+    res.setHeader("Content-Type", "application/json");
+    if (req.method === "POST" && req.url === "/v1/voices/add") {
+      res.end(JSON.stringify({ voice_id: "cloned-voice" }));
+    } else if (
+      req.url?.startsWith("/v1/text-to-speech/") ||
+      req.url?.endsWith("/audio")
+    ) {
+      res.setHeader("Content-Type", "audio/mpeg");
+      res.end(Buffer.from([1, 2, 3]));
+    } else if (req.url?.startsWith("/v1/history/")) {
+      const voice = req.url.endsWith("mine") ? "cloned-voice" : "premade";
+      res.end(JSON.stringify({ voice_id: voice }));
+    } else if (req.url?.startsWith("/v1/history")) {
+      res.end(JSON.stringify({ history: [], has_more: false }));
+    } else {
+      res.end("{}");
+    }
+  });
+  return new Promise((resolve) => server.listen(0, () => resolve(server)));
+}
+
+function startApp(): Promise<Server> {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    res.locals.userId = req.headers["x-user"];
+    next();
+  });
+  app.use("/api/elevenlabs", elevenlabsRouter);
+  const server = createServer(app);
+  return new Promise((resolve) => server.listen(0, () => resolve(server)));
+}
+
+function url(server: Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe("ElevenLabs proxy", () => {
+  const requests: StubRequest[] = [];
+  let stub: Server;
+  let app: Server;
+
+  const call = (path: string, user: string, init: RequestInit = {}) =>
+    fetch(`${url(app)}/api/elevenlabs${path}`, {
+      ...init,
+      headers: { "x-user": user, ...(init.headers || {}) },
+    });
+
+  const clone = (user: string) => {
+    const form = new FormData();
+    form.append("name", "My voice");
+    form.append("files", new Blob(["sample"]), "sample.mp3");
+    return call("/voices/add", user, { method: "POST", body: form });
+  };
+
+  beforeAll(async () => {
+    stub = await startStub(requests);
+    app = await startApp();
+    process.env.ELEVENLABS_API_URL = url(stub);
+    process.env.ELEVENLABS_API_KEY = "test-key";
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => app.close(resolve));
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests.length = 0;
+    const { Pool } = newDb().adapters.createPg();
+    pool.current = new Pool();
+    await pool.current.query(userVoices.up);
+  });
+
+  it("forwards text to speech with the server's key", async () => {
+    const response = await call("/text-to-speech/voice-1", "alice", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: "Hello", model_id: "m" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+    expect(requests[0]).toMatchObject({
+      method: "POST",
+      url: "/v1/text-to-speech/voice-1",
+      apiKey: "test-key",
+    });
+    expect(JSON.parse(requests[0].body)).toMatchObject({ text: "Hello" });
+  });
+
+  it("lets the user who cloned a voice delete it", async () => {
+    const created = await clone("alice");
+    expect(await created.json()).toEqual({ voice_id: "cloned-voice" });
+    expect(requests[0].body).toContain("sample");
+
+    const response = await call("/voices/cloned-voice", "alice", {
+      method: "DELETE",
+    });
+
+    expect(response.status).toBe(200);
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      "POST /v1/voices/add",
+      "DELETE /v1/voices/cloned-voice",
+    ]);
+    const { rows } = await pool.current.query(`SELECT * FROM user_voices`);
+    expect(rows).toEqual([]);
+  });
+
+  it("refuses to change or delete someone else's voice", async () => {
+    await clone("alice");
+
+    const deleted = await call("/voices/cloned-voice", "mallory", {
+      method: "DELETE",
+    });
+    const edited = await call("/voices/cloned-voice/settings/edit", "mallory", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ stability: 0 }),
+    });
+
+    expect(deleted.status).toBe(404);
+    expect(edited.status).toBe(404);
+    expect(requests.map((r) => r.method)).toEqual(["POST"]);
+  });
+
+  it("refuses to delete voices nobody cloned through the proxy", async () => {
+    const response = await call("/voices/premade-voice", "alice", {
+      method: "DELETE",
+    });
+
+    expect(response.status).toBe(404);
+    expect(requests).toEqual([]);
+  });
+
+  it("shows history only for the caller's own voices", async () => {
+    await clone("alice");
+    requests.length = 0;
+
+    const own = await call("/history?voice_id=cloned-voice", "alice");
+    const others = await call("/history?voice_id=cloned-voice", "mallory");
+    const unscoped = await call("/history", "alice");
+
+    expect(own.status).toBe(200);
+    expect(await own.json()).toEqual({ history: [], has_more: false });
+    expect(others.status).toBe(404);
+    expect(unscoped.status).toBe(400);
+    expect(requests.map((r) => r.url)).toEqual([
+      "/v1/history?voice_id=cloned-voice",
+    ]);
+  });
+
+  it("downloads history audio only in the caller's own voices", async () => {
+    await clone("alice");
+
+    const own = await call("/history/item-mine/audio", "alice");
+    const premade = await call("/history/item-premade/audio", "alice");
+    const others = await call("/history/item-mine/audio", "mallory");
+
+    expect(own.status).toBe(200);
+    expect(new Uint8Array(await own.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+    expect(premade.status).toBe(404);
+    expect(others.status).toBe(404);
+    expect(
+      requests.filter((r) => r.url.endsWith("/audio")).map((r) => r.url),
+    ).toEqual(["/v1/history/item-mine/audio"]);
+  });
+});
@@ -1,29 +1,318 @@
 import express from "express";
-// import { ElevenLabsClient } from "@elevenlabs/elevenlabs-node";
+import { Readable } from "stream";
+import NeonService from "../services/neon";
 
 const router = express.Router();
 
-// The ElevenLabs SDK is not available. This endpoint is currently disabled.
-// router.post("/text-to-speech/:voiceId", async (req, res) => {
-//   const apiKey = process.env.ELEVENLABS_API_KEY;
-//   if (!apiKey) return res.status(500).json({ error: "ElevenLabs API key not configured" });
-//   const { voiceId } = req.params;
-//   const { text, model_id, voice_settings, pronunciation_dictionary_locators } = req.body;
-//   try {
-//     const client = new ElevenLabsClient({ apiKey });
-//     const stream = await client.textToSpeech({
-//       voiceId,
-//       text,
-//       modelId: model_id,
-//       voiceSettings: voice_settings,
-//       pronunciationDictionaryLocators: pronunciation_dictionary_locators,
-//       outputFormat: "mp3"
-//     });
-//     res.setHeader("Content-Type", "audio/mpeg");
-//     stream.pipe(res);
-//   } catch (error) {
-//     res.status(500).json({ error: error.message });
-//   }
-// });
-
-export default router;
\ No newline at end of file
+// Overridable so the proxy can be pointed at a local stub server
+function apiUrl(path: string): string {
+  const base = process.env.ELEVENLABS_API_URL || "https://api.elevenlabs.io";
+  return `${base.replace(/\/$/, "")}/v1${path}`;
+}
+
+async function forward(
+  req: express.Request,
+  res: express.Response,
+  path: string,
+  init: RequestInit = {},
+): Promise<Response | null> {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) {
+    res.status(500).json({ error: "ElevenLabs API key not configured" });
+    return null;
+  }
+
+  // Stop paying for audio nobody will hear
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const query = new URLSearchParams(
+    req.query as Record<string, string>,
+  ).toString();
+  const upstream = await fetch(apiUrl(path) + (query ? `?${query}` : ""), {
+    ...init,
+    headers: { "xi-api-key": apiKey, ...(init.headers || {}) },
+    signal: controller.signal,
+  });
+
+  if (!upstream.ok) {
+    const errorText = await upstream.text();
+    res.status(upstream.status).json({ error: errorText });
+    return null;
+  }
+
+  return upstream;
+}
+
+function ttsBody(body: any): string {
+  const { text, model_id, voice_settings, pronunciation_dictionary_locators } =
+    body;
+  return JSON.stringify({
+    text,
+    model_id,
+    voice_settings,
+    pronunciation_dictionary_locators,
+  });
+}
+
+async function sendJson(res: express.Response, upstream: Response) {
+  const text = await upstream.text();
+  res
+    .status(upstream.status)
+    .type("application/json")
+    .send(text || "{}");
+}
+
+async function sendAudio(res: express.Response, upstream: Response) {
+  const audio = Buffer.from(await upstream.arrayBuffer());
+  res.setHeader(
+    "Content-Type",
+    upstream.headers.get("content-type") || "audio/mpeg",
+  );
+  res.send(audio);
+}
+
+function pipeAudio(res: express.Response, upstream: Response) {
+  res.setHeader(
+    "Content-Type",
+    upstream.headers.get("content-type") || "audio/mpeg",
+  );
+  res.setHeader("Cache-Control", "no-cache");
+  res.flushHeaders();
+
+  if (!upstream.body) return res.end();
+  Readable.fromWeb(upstream.body as any)
+    .on("error", () => res.end())
+    .pipe(res);
+}
+
+function handleError(res: express.Response, error: unknown) {
+  if ((error as Error).name === "AbortError") return;
+  if (res.headersSent) return res.end();
+  res.status(500).json({ error: (error as Error).message });
+}
+
+// All clones share the server's API key, so only the user who cloned a
+// voice may change or delete it
+async function ownsVoice(
+  res: express.Response,
+  voiceId: string,
+): Promise<boolean> {
+  const voice = await NeonService.getUserVoice(res.locals.userId, voiceId);
+  if (!voice) {
+    res.status(404).json({ error: "Voice not found" });
+    return false;
+  }
+  return true;
+}
+
+// Text to speech
+router.post("/text-to-speech/:voiceId", async (req, res) => {
+  try {
+    const upstream = await forward(
+      req,
+      res,
+      `/text-to-speech/${encodeURIComponent(req.params.voiceId)}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "audio/mpeg" },
+        body: ttsBody(req.body),
+      },
+    );
+    if (upstream) await sendAudio(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.post("/text-to-speech/:voiceId/stream", async (req, res) => {
+  try {
+    const upstream = await forward(
+      req,
+      res,
+      `/text-to-speech/${encodeURIComponent(req.params.voiceId)}/stream`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "audio/mpeg" },
+        body: ttsBody(req.body),
+      },
+    );
+    if (upstream) pipeAudio(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// Voices
+router.get("/voices", async (req, res) => {
+  try {
+    const upstream = await forward(req, res, "/voices");
+    if (upstream) await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.post("/voices/add", async (req, res) => {
+  const contentType = req.headers["content-type"] || "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return res.status(400).json({ error: "Expected multipart/form-data" });
+  }
+
+  try {
+    // Stream the multipart body through untouched so the boundary survives
+    const upstream = await forward(req, res, "/voices/add", {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body: Readable.toWeb(req) as any,
+      duplex: "half",
+    } as RequestInit);
+    if (!upstream) return;
+
+    const created = await upstream.json();
+    await NeonService.saveUserVoice(res.locals.userId, created.voice_id).catch(
+      async (error) => {
+        // An unowned clone could never be deleted through the proxy
+        await fetch(apiUrl(`/voices/${encodeURIComponent(created.voice_id)}`), {
+          method: "DELETE",
+          headers: { "xi-api-key": process.env.ELEVENLABS_API_KEY! },
+        }).catch(() => {});
+        throw error;
+      },
+    );
+    res.status(upstream.status).json(created);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.get("/voices/:voiceId", async (req, res) => {
+  try {
+    const upstream = await forward(
+      req,
+      res,
+      `/voices/${encodeURIComponent(req.params.voiceId)}`,
+    );
+    if (upstream) await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.delete("/voices/:voiceId", async (req, res) => {
+  try {
+    if (!(await ownsVoice(res, req.params.voiceId))) return;
+
+    const upstream = await forward(
+      req,
+      res,
+      `/voices/${encodeURIComponent(req.params.voiceId)}`,
+      { method: "DELETE" },
+    );
+    if (!upstream) return;
+
+    await NeonService.deleteUserVoice(res.locals.userId, req.params.voiceId);
+    await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.get("/voices/:voiceId/settings", async (req, res) => {
+  try {
+    const upstream = await forward(
+      req,
+      res,
+      `/voices/${encodeURIComponent(req.params.voiceId)}/settings`,
+    );
+    if (upstream) await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.post("/voices/:voiceId/settings/edit", async (req, res) => {
+  try {
+    if (!(await ownsVoice(res, req.params.voiceId))) return;
+
+    const upstream = await forward(
+      req,
+      res,
+      `/voices/${encodeURIComponent(req.params.voiceId)}/settings/edit`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(req.body),
+      },
+    );
+    if (upstream) await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.post("/voice-generation", async (req, res) => {
+  try {
+    const upstream = await forward(
+      req,
+      res,
+      "/voice-generation/generate-voice",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(req.body),
+      },
+    );
+    if (upstream) await sendAudio(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// History, per cloned voice: the account's history covers every user's
+// generations, so only those in voices the caller owns are shown
+router.get("/history", async (req, res) => {
+  const voiceId = req.query.voice_id;
+  if (typeof voiceId !== "string" || !voiceId) {
+    return res.status(400).json({ error: "voice_id is required" });
+  }
+
+  try {
+    if (!(await ownsVoice(res, voiceId))) return;
+
+    const upstream = await forward(req, res, "/history");
+    if (upstream) await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+router.get("/history/:historyItemId/audio", async (req, res) => {
+  const itemPath = `/history/${encodeURIComponent(req.params.historyItemId)}`;
+
+  try {
+    const item = await forward(req, res, itemPath);
+    if (!item) return;
+    const { voice_id } = await item.json();
+    if (!(await ownsVoice(res, voice_id))) return;
+
+    const upstream = await forward(req, res, `${itemPath}/audio`);
+    if (upstream) await sendAudio(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// Account
+router.get("/user/subscription", async (req, res) => {
+  try {
+    const upstream = await forward(req, res, "/user/subscription");
+    if (upstream) await sendJson(res, upstream);
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+export default router;
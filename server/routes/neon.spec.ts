@@ -0,0 +1,156 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { DataType, newDb } from "pg-mem";
+import initialSchema from "../db/migrations/001_initial_schema";
+import partiallyHeard from "../db/migrations/004_partially_heard_translations";
+import SessionRegistry from "../services/session-registry";
+import neonRouter from "./neon";
+
+const { pool } = vi.hoisted(() => ({ pool: { current: null as any } }));
+vi.mock("../db", () => ({ getPool: () => pool.current }));
+
+function startApp(): Promise<Server> {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    res.locals.userId = req.headers["x-user"];
+    next();
+  });
+  app.use("/api/neon", neonRouter);
+  const server = createServer(app);
+  return new Promise((resolve) => server.listen(0, () => resolve(server)));
+}
+
+describe("Neon session routes", () => {
+  let app: Server;
+  let code: string;
+  let sessionId: string;
+
+  const call = (path: string, user: string, body?: object) =>
+    fetch(
+      `http://127.0.0.1:${(app.address() as AddressInfo).port}/api/neon${path}`,
+      {
+        method: body ? "POST" : "GET",
+        headers: { "x-user": user, "Content-Type": "application/json" },
+        body: body && JSON.stringify(body),
+      },
+    );
+
+  const join = (user: string, extra: object = {}) =>
+    call(`/sessions/${sessionId}/participants`, user, {
+      userId: user,
+      username: user,
+      ...extra,
+    });
+
+  const translation = (sender: string) => ({
+    session_id: sessionId,
+    sender_id: sender,
+    original_text: "Hello",
+    translated_text: "Hola",
+    source_language: "en",
+    target_language: "es",
+  });
+
+  beforeAll(async () => {
+    app = await startApp();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => app.close(resolve));
+  });
+
+  beforeEach(async () => {
+    const db = newDb({ noAstCoverageCheck: true });
+    db.public.registerFunction({
+      name: "gen_random_uuid",
+      returns: DataType.uuid,
+      implementation: randomUUID,
+      impure: true,
+    });
+    const { Pool } = db.adapters.createPg();
+    pool.current = new Pool();
+    await pool.current.query(initialSchema.up);
+    await pool.current.query(partiallyHeard.up);
+
+    // Alice hosts; Bob joins with the code
+    ({ code, sessionId } = SessionRegistry.create("alice", {
+      maxParticipants: 3,
+    }));
+    SessionRegistry.join(code, "bob");
+    expect(
+      (await call("/sessions", "alice", { hostId: "alice", sessionId })).status,
+    ).toBe(201);
+    expect((await join("alice")).status).toBe(201);
+  });
+
+  it("records who hosts from the session, not from the request", async () => {
+    const response = await join("bob", { isHost: true });
+
+    expect(response.status).toBe(201);
+    const participants = await (
+      await call(`/sessions/${sessionId}/participants`, "alice")
+    ).json();
+    expect(participants.map((p: any) => [p.user_id, p.is_host])).toEqual([
+      ["alice", true],
+      ["bob", false],
+    ]);
+  });
+
+  it("doesn't let outsiders into a session", async () => {
+    expect((await join("mallory")).status).toBe(403);
+    expect(
+      (await call("/sessions", "mallory", { hostId: "mallory", sessionId }))
+        .status,
+    ).toBe(403);
+  });
+
+  it("keeps a session's records to its participants", async () => {
+    await join("bob");
+    expect(
+      (await call("/translations", "bob", translation("bob"))).status,
+    ).toBe(201);
+
+    for (const path of ["", "/participants", "/translations"]) {
+      expect((await call(`/sessions/${sessionId}${path}`, "bob")).status).toBe(
+        200,
+      );
+      expect(
+        (await call(`/sessions/${sessionId}${path}`, "mallory")).status,
+      ).toBe(403);
+    }
+    expect(
+      (await call("/translations", "mallory", translation("mallory"))).status,
+    ).toBe(403);
+  });
+
+  it("only records received translations between participants", async () => {
+    const received = (user: string, sender: string) =>
+      call(
+        `/sessions/${sessionId}/received-translations`,
+        user,
+        translation(sender),
+      );
+    await join("bob");
+
+    expect((await received("mallory", "alice")).status).toBe(403);
+    expect((await received("bob", "mallory")).status).toBe(403);
+    expect((await received("bob", "alice")).status).toBe(201);
+
+    const history = await (
+      await call(`/sessions/${sessionId}/translations`, "alice")
+    ).json();
+    expect(history.map((t: any) => t.sender_id)).toEqual(["alice"]);
+  });
+});
@@ -0,0 +1,251 @@
+import express from "express";
+import NeonService from "../services/neon";
+import SessionRegistry from "../services/session-registry";
+
+const router = express.Router();
+
+// Callers may only read or write their own user-scoped rows
+function isSelf(res: express.Response, userId: string): boolean {
+  if (res.locals.userId !== userId) {
+    res.status(403).json({ error: "Forbidden" });
+    return false;
+  }
+  return true;
+}
+
+// Members are whoever holds a seat in the live session, plus anyone
+// recorded as a participant, which only members can be
+async function isParticipant(
+  sessionId: string,
+  userId: string,
+): Promise<boolean> {
+  if (!userId) return false;
+  if (SessionRegistry.isParticipant(sessionId, userId)) return true;
+  const participants = await NeonService.getSessionParticipants(sessionId);
+  return participants.some((p) => p.user_id === userId);
+}
+
+async function isMember(
+  res: express.Response,
+  sessionId: string,
+): Promise<boolean> {
+  if (!(await isParticipant(sessionId, res.locals.userId))) {
+    res.status(403).json({ error: "Forbidden" });
+    return false;
+  }
+  return true;
+}
+
+function parseLimit(value: unknown, fallback: number): number {
+  const limit = parseInt(String(value ?? ""), 10);
+  return Number.isFinite(limit) && limit > 0 ? Math.min(limit, 200) : fallback;
+}
+
+// Sessions
+router.post("/sessions", async (req, res) => {
+  const { hostId, sessionId } = req.body;
+  if (!isSelf(res, hostId)) return;
+  // Only for a session the caller registered and hosts
+  if (SessionRegistry.findBySessionId(sessionId)?.hostId !== hostId) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  try {
+    const session = await NeonService.createSession(hostId, sessionId);
+    res.status(201).json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.get("/sessions/active/count", async (_req, res) => {
+  try {
+    res.json({ count: await NeonService.getActiveSessionCount() });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.get("/sessions/:sessionId", async (req, res) => {
+  try {
+    if (!(await isMember(res, req.params.sessionId))) return;
+    const session = await NeonService.getSession(req.params.sessionId);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    res.json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post("/sessions/:sessionId/end", async (req, res) => {
+  try {
+    const session = await NeonService.getSession(req.params.sessionId);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    if (!isSelf(res, session.host_id)) return;
+
+    await NeonService.endSession(req.params.sessionId);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Participants
+router.get("/sessions/:sessionId/participants", async (req, res) => {
+  try {
+    if (!(await isMember(res, req.params.sessionId))) return;
+    res.json(await NeonService.getSessionParticipants(req.params.sessionId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post("/sessions/:sessionId/participants", async (req, res) => {
+  const { userId, username } = req.body;
+  if (!isSelf(res, userId)) return;
+
+  try {
+    const session = await NeonService.getSession(req.params.sessionId);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+    // A seat comes from the registry (hosting or joining by code), not
+    // from asking here
+    const isHost = userId === session.host_id;
+    if (!isHost && !SessionRegistry.isParticipant(session.id, userId)) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    const participant = await NeonService.addParticipant(
+      session.id,
+      userId,
+      username,
+      isHost,
+    );
+    res.status(201).json(participant);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.delete("/sessions/:sessionId/participants/:userId", async (req, res) => {
+  if (!isSelf(res, req.params.userId)) return;
+
+  try {
+    await NeonService.removeParticipant(
+      req.params.sessionId,
+      req.params.userId,
+    );
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Translations
+router.post("/translations", async (req, res) => {
+  if (!isSelf(res, req.body.sender_id)) return;
+
+  try {
+    if (!(await isMember(res, req.body.session_id))) return;
+    res.status(201).json(await NeonService.saveTranslation(req.body));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Receiver-side sessions: the listener translates and records the message
+// it received, still attributed to whoever spoke it
+router.post("/sessions/:sessionId/received-translations", async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    if (!(await isMember(res, sessionId))) return;
+    // Attributed to someone else, who has to be in the session too
+    if (!(await isParticipant(sessionId, req.body.sender_id))) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    res.status(201).json(
+      await NeonService.saveTranslation({
+        ...req.body,
+        session_id: sessionId,
+      }),
+    );
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.get("/sessions/:sessionId/translations", async (req, res) => {
+  try {
+    if (!(await isMember(res, req.params.sessionId))) return;
+    res.json(
+      await NeonService.getSessionTranslations(
+        req.params.sessionId,
+        parseLimit(req.query.limit, 50),
+      ),
+    );
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// User settings
+router.get("/users/:userId/settings", async (req, res) => {
+  if (!isSelf(res, req.params.userId)) return;
+
+  try {
+    const settings = await NeonService.getUserSettings(req.params.userId);
+    if (!settings) return res.status(404).json({ error: "No settings found" });
+    res.json(settings);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.put("/users/:userId/settings", async (req, res) => {
+  if (!isSelf(res, req.params.userId)) return;
+
+  try {
+    res.json(await NeonService.updateUserSettings(req.params.userId, req.body));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.get("/users/:userId/sessions", async (req, res) => {
+  if (!isSelf(res, req.params.userId)) return;
+
+  try {
+    res.json(
+      await NeonService.getUserSessionHistory(
+        req.params.userId,
+        parseLimit(req.query.limit, 20),
+      ),
+    );
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Voice profiles
+router.post("/voice-profiles", async (req, res) => {
+  if (!isSelf(res, req.body.user_id)) return;
+
+  try {
+    res.status(201).json(await NeonService.createVoiceProfile(req.body));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.get("/users/:userId/voice-profiles", async (req, res) => {
+  if (!isSelf(res, req.params.userId)) return;
+
+  try {
+    res.json(await NeonService.getUserVoiceProfiles(req.params.userId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
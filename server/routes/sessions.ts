@@ -0,0 +1,113 @@
+import express from "express";
+import { body, param, validationResult } from "express-validator";
+import SessionRegistry, {
+  SessionRegistryError,
+} from "../services/session-registry";
+
+const router = express.Router();
+
+const codeParam = param("code")
+  .isString()
+  .trim()
+  .isLength({ min: 6, max: 6 })
+  .withMessage("Session codes are 6 characters");
+
+function sendRegistryError(res: express.Response, error: unknown) {
+  if (error instanceof SessionRegistryError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  res.status(500).json({ error: (error as Error).message });
+}
+
+router.post(
+  "/",
+  body("maxParticipants").optional().isInt({ min: 2, max: 10 }).toInt(),
+  body("ttlMinutes").optional().isInt({ min: 1 }).toInt(),
+  (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const userId = res.locals.userId;
+    if (!userId) return res.status(401).json({ error: "Missing user" });
+
+    const { maxParticipants, ttlMinutes } = req.body;
+    try {
+      const session = SessionRegistry.create(userId, {
+        maxParticipants,
+        ttlMs: ttlMinutes ? ttlMinutes * 60 * 1000 : undefined,
+      });
+      res.status(201).json(session);
+    } catch (error) {
+      sendRegistryError(res, error);
+    }
+  },
+);
+
+router.get(
+  "/:code",
+  codeParam,
+  (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      res.json(SessionRegistry.resolve(req.params.code));
+    } catch (error) {
+      sendRegistryError(res, error);
+    }
+  },
+);
+
+router.post(
+  "/:code/join",
+  codeParam,
+  (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const userId = res.locals.userId;
+    if (!userId) return res.status(401).json({ error: "Missing user" });
+
+    try {
+      res.json(SessionRegistry.join(req.params.code, userId));
+    } catch (error) {
+      sendRegistryError(res, error);
+    }
+  },
+);
+
+router.post(
+  "/:code/leave",
+  codeParam,
+  (req: express.Request, res: express.Response) => {
+    const userId = res.locals.userId;
+    if (!userId) return res.status(401).json({ error: "Missing user" });
+
+    SessionRegistry.leave(req.params.code, userId);
+    res.status(204).end();
+  },
+);
+
+router.delete(
+  "/:code",
+  codeParam,
+  (req: express.Request, res: express.Response) => {
+    const userId = res.locals.userId;
+    if (!userId) return res.status(401).json({ error: "Missing user" });
+
+    try {
+      SessionRegistry.end(req.params.code, userId);
+      res.status(204).end();
+    } catch (error) {
+      sendRegistryError(res, error);
+    }
+  },
+);
+
+export default router;
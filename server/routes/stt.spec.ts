@@ -0,0 +1,219 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import express from "express";
+import { createServer, type RequestListener, type Server } from "http";
+import type { AddressInfo } from "net";
+import sttRouter from "./stt";
+
+interface UpstreamRequest {
+  apiKey: string | undefined;
+  form: FormData;
+}
+
+function listen(handler: RequestListener) {
+  const server = createServer(handler);
+  return new Promise<Server>((resolve) =>
+    server.listen(0, () => resolve(server)),
+  );
+}
+
+function url(server: Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+// What a Whisper server answers with response_format=verbose_json
+const VERBOSE_JSON = {
+  text: " Hello, world. How are you?",
+  language: "english",
+  duration: 3.2,
+  segments: [
+    { start: 0, end: 1.2, text: " Hello, world.", avg_logprob: 0 },
+    {
+      start: 1.2,
+      end: 3,
+      text: " How are you?",
+      avg_logprob: Math.log(0.5),
+      no_speech_prob: 0.2,
+    },
+  ],
+  words: [
+    { word: "Hello,", start: 0, end: 0.5 },
+    { word: "world.", start: 0.5, end: 1.2 },
+    { word: "How", start: 1.2, end: 1.6 },
+    { word: "are", start: 1.6, end: 2 },
+    { word: "you?", start: 2, end: 3 },
+  ],
+};
+
+describe("STT proxy", () => {
+  const requests: UpstreamRequest[] = [];
+  let stub: Server;
+  let app: Server;
+
+  const transcribe = (fields: Record<string, string> = {}) => {
+    const form = new FormData();
+    form.append("file", new Blob(["fake audio"]), "audio.wav");
+    for (const [name, value] of Object.entries(fields)) {
+      form.append(name, value);
+    }
+    return fetch(`${url(app)}/api/stt/transcribe`, {
+      method: "POST",
+      body: form,
+    });
+  };
+
+  beforeAll(async () => {
+    // Stands in for the Whisper-compatible server
+    stub = await listen(async (req, res) => {
+      const form = await new Request("http://stub/", {
+        method: "POST",
+        headers: { "Content-Type": req.headers["content-type"]! },
+        body: req as any,
+        duplex: "half",
+      } as RequestInit).formData();
+      requests.push({ apiKey: req.headers.authorization, form });
+
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(VERBOSE_JSON));
+    });
+
+    const server = express();
+    server.use("/api/stt", sttRouter);
+    app = await listen(server);
+
+    process.env.STT_API_URL = url(stub);
+    process.env.STT_API_KEY = "test-key";
+  });
+
+  afterAll(async () => {
+    app.closeAllConnections();
+    await new Promise((resolve) => app.close(resolve));
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it("forwards the upload as a verbose Whisper request", async () => {
+    const response = await transcribe({
+      language: "de-DE",
+      enableWordTimestamps: "true",
+    });
+
+    expect(response.status).toBe(200);
+    const [upstream] = requests;
+    expect(upstream.apiKey).toBe("Bearer test-key");
+    expect(upstream.form.get("model")).toBe("whisper-1");
+    expect(upstream.form.get("response_format")).toBe("verbose_json");
+    expect(upstream.form.get("language")).toBe("de");
+    expect(upstream.form.getAll("timestamp_granularities[]")).toEqual([
+      "segment",
+      "word",
+    ]);
+    const file = upstream.form.get("file") as File;
+    expect(file.name).toBe("audio.wav");
+    expect(await file.text()).toBe("fake audio");
+  });
+
+  it("maps verbose_json onto an STT result", async () => {
+    const result = await (await transcribe()).json();
+
+    expect(result).toMatchObject({
+      text: "Hello, world. How are you?",
+      language: "en",
+      duration: 3.2,
+      segments: [
+        { start: 0, end: 1.2, text: "Hello, world.", confidence: 1 },
+        { start: 1.2, end: 3, text: "How are you?" },
+      ],
+    });
+    expect(result.segments[1].confidence).toBeCloseTo(0.4);
+    // Weighted by how long each segment is
+    expect(result.confidence).toBeCloseTo((1.2 * 1 + 1.8 * 0.4) / 3);
+    expect(result.segments[0].words).toBeUndefined();
+  });
+
+  it("strips punctuation and buckets words when asked", async () => {
+    const result = await (
+      await transcribe({
+        enablePunctuation: "false",
+        enableWordTimestamps: "true",
+      })
+    ).json();
+
+    expect(result.text).toBe("Hello world How are you");
+    expect(
+      result.segments.map((s: any) => s.words.map((w: any) => w.word)),
+    ).toEqual([
+      ["Hello", "world"],
+      ["How", "are", "you"],
+    ]);
+  });
+
+  it("requires a multipart upload with a file", async () => {
+    const json = await fetch(`${url(app)}/api/stt/transcribe`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    const form = new FormData();
+    form.append("language", "en");
+    const missing = await fetch(`${url(app)}/api/stt/transcribe`, {
+      method: "POST",
+      body: form,
+    });
+
+    expect(json.status).toBe(400);
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({ error: "Missing audio file" });
+    expect(requests).toEqual([]);
+  });
+
+  it("refuses uploads over 25 MB by declared size", async () => {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(26 * 1024 * 1024)]), "a.wav");
+
+    const response = await fetch(`${url(app)}/api/stt/transcribe`, {
+      method: "POST",
+      body: form,
+    });
+
+    expect(response.status).toBe(413);
+    expect(requests).toEqual([]);
+  });
+
+  it("refuses uploads over 25 MB that don't declare a size", async () => {
+    const boundary = "sizeless";
+    const encoder = new TextEncoder();
+    const megabyte = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    // Chunked: no content-length to check up front
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent === 0) {
+          controller.enqueue(
+            encoder.encode(
+              `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.wav"\r\n\r\n`,
+            ),
+          );
+        }
+        if (sent++ < 30) {
+          controller.enqueue(megabyte);
+        } else {
+          controller.enqueue(encoder.encode(`\r\n--${boundary}--\r\n`));
+          controller.close();
+        }
+      },
+    });
+
+    const response = await fetch(`${url(app)}/api/stt/transcribe`, {
+      method: "POST",
+      headers: { "Content-Type": `multipart/form-data; boundary=${boundary}` },
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    expect(response.status).toBe(413);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,241 @@
+import express from "express";
+import { Readable, Transform } from "stream";
+import type { STTResult, STTSegment, STTWord } from "@shared/api";
+
+const router = express.Router();
+
+// OpenAI's limit for /audio/transcriptions; most compatible servers match it
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// verbose_json reports the detected language by name rather than code
+const LANGUAGE_CODES: Record<string, string> = {
+  arabic: "ar",
+  bulgarian: "bg",
+  chinese: "zh",
+  czech: "cs",
+  danish: "da",
+  dutch: "nl",
+  english: "en",
+  estonian: "et",
+  finnish: "fi",
+  french: "fr",
+  german: "de",
+  greek: "el",
+  hindi: "hi",
+  hungarian: "hu",
+  indonesian: "id",
+  italian: "it",
+  japanese: "ja",
+  korean: "ko",
+  latvian: "lv",
+  lithuanian: "lt",
+  norwegian: "no",
+  polish: "pl",
+  portuguese: "pt",
+  romanian: "ro",
+  russian: "ru",
+  slovak: "sk",
+  slovenian: "sl",
+  spanish: "es",
+  swedish: "sv",
+  turkish: "tr",
+  ukrainian: "uk",
+  vietnamese: "vi",
+};
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+interface WhisperVerboseResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: WhisperSegment[];
+  words?: STTWord[];
+}
+
+// Any Whisper-compatible server (OpenAI, Groq, faster-whisper, ...) will do
+function apiUrl(path: string): string {
+  const base = process.env.STT_API_URL || "https://api.openai.com/v1";
+  return `${base.replace(/\/$/, "")}${path}`;
+}
+
+function parseFlag(value: FormDataEntryValue | null): boolean | undefined {
+  if (typeof value !== "string") return undefined;
+  return value === "true" || value === "1";
+}
+
+// "en-US" -> "en"; Whisper only accepts ISO-639-1
+function toWhisperLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase();
+}
+
+function toLanguageCode(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+  return LANGUAGE_CODES[language.toLowerCase()] || language;
+}
+
+function stripPunctuation(text: string): string {
+  return text
+    .replace(/[^\p{L}\p{N}\s'-]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function segmentConfidence(segment: WhisperSegment): number {
+  if (segment.avg_logprob === undefined) return 1;
+  const confidence =
+    Math.exp(segment.avg_logprob) * (1 - (segment.no_speech_prob ?? 0));
+  return Math.min(Math.max(confidence, 0), 1);
+}
+
+function toSTTResult(
+  data: WhisperVerboseResponse,
+  options: { language?: string; punctuation: boolean; words: boolean },
+): STTResult {
+  const clean = (text: string) =>
+    options.punctuation ? text.trim() : stripPunctuation(text);
+  const words = data.words || [];
+
+  const segments: STTSegment[] = (data.segments || []).map((segment) => {
+    const result: STTSegment = {
+      start: segment.start,
+      end: segment.end,
+      text: clean(segment.text),
+      confidence: segmentConfidence(segment),
+    };
+    if (options.words) {
+      // Words can straddle segment edges, so bucket them by midpoint
+      result.words = words
+        .filter((word) => {
+          const mid = (word.start + word.end) / 2;
+          return mid >= segment.start && mid < segment.end;
+        })
+        .map((word) => ({ ...word, word: clean(word.word) }));
+    }
+    return result;
+  });
+
+  // Weight by duration so a long confident segment outweighs a short mumble
+  const spoken = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+  const confidence =
+    spoken > 0
+      ? segments.reduce((sum, s) => sum + s.confidence * (s.end - s.start), 0) /
+        spoken
+      : segments.length > 0
+        ? segments[0].confidence
+        : 0;
+
+  return {
+    text: clean(data.text || ""),
+    confidence,
+    language: options.language || toLanguageCode(data.language) || "en",
+    duration:
+      data.duration ??
+      (segments.length ? segments[segments.length - 1].end : 0),
+    segments,
+  };
+}
+
+// content-length can be missing (chunked uploads) or wrong, so the limit
+// is enforced on the bytes actually received
+function limitBody(req: express.Request, maxBytes: number) {
+  const state = { tooLarge: false };
+  let received = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        state.tooLarge = true;
+        callback(new Error("Audio file too large"));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+  return { body: req.pipe(counter), state };
+}
+
+router.post("/transcribe", async (req, res) => {
+  const apiKey = process.env.STT_API_KEY;
+  if (!apiKey) {
+    return res.status(500).json({ error: "STT API key not configured" });
+  }
+
+  const contentType = req.headers["content-type"] || "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return res.status(400).json({ error: "Expected multipart/form-data" });
+  }
+  if (Number(req.headers["content-length"] || 0) > MAX_UPLOAD_BYTES) {
+    return res.status(413).json({ error: "Audio file too large" });
+  }
+
+  const upload = limitBody(req, MAX_UPLOAD_BYTES);
+
+  try {
+    const form = await new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body: Readable.toWeb(upload.body) as any,
+      duplex: "half",
+    } as RequestInit).formData();
+
+    const file = form.get("file");
+    if (!file || typeof file === "string") {
+      return res.status(400).json({ error: "Missing audio file" });
+    }
+
+    const language = form.get("language");
+    const punctuation = parseFlag(form.get("enablePunctuation")) ?? true;
+    const words = parseFlag(form.get("enableWordTimestamps")) ?? false;
+
+    const upstreamForm = new FormData();
+    upstreamForm.append("file", file, file.name || "audio.webm");
+    upstreamForm.append("model", process.env.STT_MODEL || "whisper-1");
+    upstreamForm.append("response_format", "verbose_json");
+    upstreamForm.append("timestamp_granularities[]", "segment");
+    if (words) {
+      upstreamForm.append("timestamp_granularities[]", "word");
+    }
+    if (typeof language === "string" && language) {
+      upstreamForm.append("language", toWhisperLanguage(language));
+    }
+
+    const upstream = await fetch(apiUrl("/audio/transcriptions"), {
+      method: "POST",
+      headers: { Authorization: `Bearer ${apiKey}` },
+      body: upstreamForm,
+    });
+
+    if (!upstream.ok) {
+      const errorText = await upstream.text();
+      return res.status(upstream.status).json({ error: errorText });
+    }
+
+    const data = (await upstream.json()) as WhisperVerboseResponse;
+    res.json(
+      toSTTResult(data, {
+        language:
+          typeof language === "string" && language
+            ? toWhisperLanguage(language)
+            : undefined,
+        punctuation,
+        words,
+      }),
+    );
+  } catch (error) {
+    if (upload.state.tooLarge) {
+      // Don't read the rest of an upload we've already refused
+      res.setHeader("Connection", "close");
+      return res.status(413).json({ error: "Audio file too large" });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
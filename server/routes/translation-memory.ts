@@ -0,0 +1,44 @@
+import express from "express";
+import { body, validationResult } from "express-validator";
+import TranslationMemory from "../services/translation-memory";
+
+const router = express.Router();
+
+const keyValidators = [
+  body("text").isString().trim().notEmpty().isLength({ max: 5000 }),
+  body("sourceLanguage").isString().trim().notEmpty().isLength({ max: 10 }),
+  body("targetLanguage").isString().trim().notEmpty().isLength({ max: 10 }),
+  body("formality").optional().isIn(["default", "more", "less"]),
+  body("glossaryVersion").optional().isString().isLength({ max: 64 }),
+];
+
+router.post(
+  "/lookup",
+  ...keyValidators,
+  body("fuzzy").optional().isBoolean().toBoolean(),
+  body("minSimilarity").optional().isFloat({ min: 0, max: 1 }).toFloat(),
+  async (req: express.Request, res: express.Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { fuzzy, minSimilarity, ...key } = req.body;
+    try {
+      const match = await TranslationMemory.lookup(key, {
+        fuzzy,
+        minSimilarity,
+      });
+      if (!match) return res.status(404).json({ error: "No match" });
+      res.json(match);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  },
+);
+
+router.get("/metrics", (_req, res) => {
+  res.json(TranslationMemory.getMetrics());
+});
+
+export default router;
@@ -0,0 +1,73 @@
+import express from "express";
+import { createHmac } from "crypto";
+import type { IceServer, IceServersResponse } from "@shared/api";
+
+const router = express.Router();
+
+const DEFAULT_STUN_URLS = [
+  "stun:stun.l.google.com:19302",
+  "stun:stun1.l.google.com:19302",
+];
+const DEFAULT_CREDENTIAL_TTL_S = 60 * 60; // 1 hour
+
+function parseUrls(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+// coturn's REST API scheme (use-auth-secret): the username carries its
+// own expiry and the password is an HMAC of it, so coturn can check
+// credentials with the shared secret and no call back to us
+function createTurnCredentials(
+  secret: string,
+  userId: string,
+  ttlSeconds: number,
+  now: number = Date.now(),
+): { username: string; credential: string; expiresAt: number } {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+  const credential = createHmac("sha1", secret)
+    .update(username)
+    .digest("base64");
+  return { username, credential, expiresAt: expiry * 1000 };
+}
+
+router.get("/ice-servers", (_req, res) => {
+  const userId = res.locals.userId;
+  if (!userId) return res.status(401).json({ error: "Missing user" });
+
+  try {
+    const stunUrls = parseUrls(process.env.STUN_URLS);
+    const turnUrls = parseUrls(process.env.TURN_URLS);
+    const ttl =
+      parseInt(process.env.TURN_CREDENTIAL_TTL || "", 10) ||
+      DEFAULT_CREDENTIAL_TTL_S;
+
+    const iceServers: IceServer[] = [
+      { urls: stunUrls.length ? stunUrls : DEFAULT_STUN_URLS },
+    ];
+    let expiresAt = Date.now() + ttl * 1000;
+
+    if (turnUrls.length) {
+      const secret = process.env.TURN_SECRET;
+      if (!secret) throw new Error("TURN secret not configured");
+
+      const turn = createTurnCredentials(secret, userId, ttl);
+      iceServers.push({
+        urls: turnUrls,
+        username: turn.username,
+        credential: turn.credential,
+      });
+      expiresAt = turn.expiresAt;
+    }
+
+    const response: IceServersResponse = { iceServers, expiresAt };
+    res.json(response);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,85 @@
+import { Pool } from "pg";
+import { getPool } from "../db";
+import type {
+  LatencyBreakdownResponse,
+  LatencyReport,
+  LatencyStage,
+} from "@shared/api";
+
+export class LatencyService {
+  private get pool(): Pool {
+    return getPool();
+  }
+
+  async record(userId: string, report: LatencyReport): Promise<void> {
+    if (report.timings.length === 0) return;
+
+    // One multi-row insert per utterance
+    const values: unknown[] = [];
+    const rows = report.timings.map((timing) => {
+      values.push(
+        report.correlationId,
+        userId,
+        report.sessionId ?? null,
+        report.mode ?? null,
+        timing.stage,
+        timing.provider ?? "",
+        timing.durationMs,
+      );
+      const first = values.length - 6;
+      const placeholders = Array.from({ length: 7 }, (_, i) => `$${first + i}`);
+      return `(${placeholders.join(", ")})`;
+    });
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(
+        `INSERT INTO latency_timings
+           (correlation_id, user_id, session_id, mode, stage, provider, duration_ms)
+         VALUES ${rows.join(", ")}`,
+        values,
+      );
+    } catch (error) {
+      console.error("Failed to record latency timings:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getBreakdown(since: Date): Promise<LatencyBreakdownResponse> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT stage, provider, COUNT(*) AS count,
+                percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms) AS p50,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms) AS p95
+         FROM latency_timings
+         WHERE created_at >= $1
+         GROUP BY stage, provider
+         ORDER BY stage, provider`,
+        [since],
+      );
+
+      return {
+        since: since.toISOString(),
+        stages: result.rows.map((row) => ({
+          stage: row.stage as LatencyStage,
+          provider: row.provider,
+          count: Number(row.count),
+          p50: Number(row.p50),
+          p95: Number(row.p95),
+        })),
+      };
+    } catch (error) {
+      console.error("Failed to get latency breakdown:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export default new LatencyService();
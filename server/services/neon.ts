@@ -0,0 +1,600 @@
+import { Pool } from "pg";
+import { closePool, getPool } from "../db";
+import type {
+  ParticipantRecord,
+  SessionRecord,
+  TranslationRecord,
+  UserGlossaryRecord,
+  UserSettingsRecord,
+  UserVoiceRecord,
+  VoiceProfileRecord,
+} from "@shared/database";
+
+// Column names are interpolated into SQL, so only these may be updated
+const USER_SETTINGS_COLUMNS = [
+  "preferred_source_language",
+  "preferred_target_language",
+  "voice_settings",
+  "notification_settings",
+] as const;
+
+export class NeonDatabaseService {
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+  private get pool(): Pool {
+    return getPool();
+  }
+
+  // Session methods
+  async createSession(
+    hostId: string,
+    sessionId: string = `session_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+  ): Promise<SessionRecord> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `INSERT INTO sessions (id, host_id) VALUES ($1, $2) RETURNING *`,
+        [sessionId, hostId],
+      );
+
+      return result.rows[0];
+    } catch (error) {
+      console.error("Failed to create session:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM sessions WHERE id = $1`,
+        [sessionId],
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error("Failed to get session:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async endSession(sessionId: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      // Get session duration
+      const sessionResult = await client.query(
+        `SELECT created_at FROM sessions WHERE id = $1`,
+        [sessionId],
+      );
+
+      if (sessionResult.rows.length > 0) {
+        const createdAt = sessionResult.rows[0].created_at;
+        const durationSeconds = Math.floor(
+          (Date.now() - createdAt.getTime()) / 1000,
+        );
+
+        // Update session
+        await client.query(
+          `UPDATE sessions SET ended_at = CURRENT_TIMESTAMP, is_active = false, duration_seconds = $1 WHERE id = $2`,
+          [durationSeconds, sessionId],
+        );
+
+        // Update all participants
+        await client.query(
+          `UPDATE participants SET left_at = CURRENT_TIMESTAMP, status = 'disconnected' WHERE session_id = $1 AND left_at IS NULL`,
+          [sessionId],
+        );
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Failed to end session:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Participant methods
+  async addParticipant(
+    sessionId: string,
+    userId: string,
+    username: string,
+    isHost: boolean = false,
+  ): Promise<ParticipantRecord> {
+    const participantId = `participant_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      // Add participant
+      const result = await client.query(
+        `INSERT INTO participants (id, session_id, user_id, username, is_host) VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        [participantId, sessionId, userId, username, isHost],
+      );
+
+      // Update participant count
+      await client.query(
+        `UPDATE sessions SET participant_count = (SELECT COUNT(*) FROM participants WHERE session_id = $1 AND left_at IS NULL) WHERE id = $1`,
+        [sessionId],
+      );
+
+      await client.query("COMMIT");
+      return result.rows[0];
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Failed to add participant:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async removeParticipant(sessionId: string, userId: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      // Update participant
+      await client.query(
+        `UPDATE participants SET left_at = CURRENT_TIMESTAMP, status = 'disconnected' WHERE session_id = $1 AND user_id = $2`,
+        [sessionId, userId],
+      );
+
+      // Update participant count
+      await client.query(
+        `UPDATE sessions SET participant_count = (SELECT COUNT(*) FROM participants WHERE session_id = $1 AND left_at IS NULL) WHERE id = $1`,
+        [sessionId],
+      );
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Failed to remove participant:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSessionParticipants(
+    sessionId: string,
+  ): Promise<ParticipantRecord[]> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM participants WHERE session_id = $1 ORDER BY joined_at`,
+        [sessionId],
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error("Failed to get session participants:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Translation methods
+  async saveTranslation(
+    translation: Omit<TranslationRecord, "id" | "created_at">,
+  ): Promise<TranslationRecord> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const result = await client.query(
+        `INSERT INTO translations (session_id, sender_id, original_text, translated_text, source_language, target_language, confidence_score, audio_url, enhanced_by_ai, partially_heard) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+        [
+          translation.session_id,
+          translation.sender_id,
+          translation.original_text,
+          translation.translated_text,
+          translation.source_language,
+          translation.target_language,
+          translation.confidence_score,
+          translation.audio_url,
+          translation.enhanced_by_ai,
+          translation.partially_heard ?? false,
+        ],
+      );
+
+      // Update session translation count
+      await client.query(
+        `UPDATE sessions SET total_translations = total_translations + 1 WHERE id = $1`,
+        [translation.session_id],
+      );
+
+      await client.query("COMMIT");
+      return result.rows[0];
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Failed to save translation:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSessionTranslations(
+    sessionId: string,
+    limit: number = 50,
+  ): Promise<TranslationRecord[]> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM translations WHERE session_id = $1 ORDER BY created_at DESC LIMIT $2`,
+        [sessionId, limit],
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error("Failed to get session translations:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // User settings methods
+  async getUserSettings(userId: string): Promise<UserSettingsRecord | null> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM user_settings WHERE user_id = $1`,
+        [userId],
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error("Failed to get user settings:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateUserSettings(
+    userId: string,
+    settings: Partial<Omit<UserSettingsRecord, "user_id" | "created_at">>,
+  ): Promise<UserSettingsRecord> {
+    const columns = USER_SETTINGS_COLUMNS.filter(
+      (column) => settings[column] !== undefined,
+    );
+    if (columns.length === 0) {
+      throw new Error("No user settings to update");
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      const setClause = columns
+        .map((key, index) => `${key} = $${index + 2}`)
+        .join(", ");
+
+      const values = [userId, ...columns.map((column) => settings[column])];
+
+      const result = await client.query(
+        `INSERT INTO user_settings (user_id, ${columns.join(", ")}) 
+         VALUES ($1, ${columns.map((_, i) => `$${i + 2}`).join(", ")})
+         ON CONFLICT (user_id) DO UPDATE SET ${setClause}, updated_at = CURRENT_TIMESTAMP
+         RETURNING *`,
+        values,
+      );
+
+      return result.rows[0];
+    } catch (error) {
+      console.error("Failed to update user settings:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Glossary methods
+  // Returns the glossary this one replaced, so the caller can delete it upstream
+  async saveUserGlossary(
+    glossary: Omit<UserGlossaryRecord, "created_at">,
+  ): Promise<{ glossary: UserGlossaryRecord; replaced: string | null }> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const previous = await client.query(
+        `DELETE FROM user_glossaries WHERE user_id = $1 AND source_language = $2 AND target_language = $3 RETURNING glossary_id`,
+        [glossary.user_id, glossary.source_language, glossary.target_language],
+      );
+
+      const result = await client.query(
+        `INSERT INTO user_glossaries (glossary_id, user_id, name, source_language, target_language, entry_count)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [
+          glossary.glossary_id,
+          glossary.user_id,
+          glossary.name,
+          glossary.source_language,
+          glossary.target_language,
+          glossary.entry_count,
+        ],
+      );
+
+      await client.query("COMMIT");
+      return {
+        glossary: result.rows[0],
+        replaced: previous.rows[0]?.glossary_id ?? null,
+      };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Failed to save user glossary:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUserGlossaries(userId: string): Promise<UserGlossaryRecord[]> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM user_glossaries WHERE user_id = $1 ORDER BY source_language, target_language`,
+        [userId],
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error("Failed to get user glossaries:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUserGlossary(
+    userId: string,
+    glossaryId: string,
+  ): Promise<UserGlossaryRecord | null> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM user_glossaries WHERE user_id = $1 AND glossary_id = $2`,
+        [userId, glossaryId],
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error("Failed to get user glossary:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteUserGlossary(userId: string, glossaryId: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(
+        `DELETE FROM user_glossaries WHERE user_id = $1 AND glossary_id = $2`,
+        [userId, glossaryId],
+      );
+    } catch (error) {
+      console.error("Failed to delete user glossary:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Cloned voice methods
+  async saveUserVoice(
+    userId: string,
+    voiceId: string,
+  ): Promise<UserVoiceRecord> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `INSERT INTO user_voices (voice_id, user_id) VALUES ($1, $2) RETURNING *`,
+        [voiceId, userId],
+      );
+
+      return result.rows[0];
+    } catch (error) {
+      console.error("Failed to save user voice:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUserVoice(
+    userId: string,
+    voiceId: string,
+  ): Promise<UserVoiceRecord | null> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM user_voices WHERE user_id = $1 AND voice_id = $2`,
+        [userId, voiceId],
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error("Failed to get user voice:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteUserVoice(userId: string, voiceId: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(
+        `DELETE FROM user_voices WHERE user_id = $1 AND voice_id = $2`,
+        [userId, voiceId],
+      );
+    } catch (error) {
+      console.error("Failed to delete user voice:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Voice profile methods
+  async createVoiceProfile(
+    profile: Omit<VoiceProfileRecord, "id" | "created_at" | "updated_at">,
+  ): Promise<VoiceProfileRecord> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `INSERT INTO voice_profiles (user_id, name, language, is_custom, audio_sample_url, voice_parameters) 
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [
+          profile.user_id,
+          profile.name,
+          profile.language,
+          profile.is_custom,
+          profile.audio_sample_url,
+          JSON.stringify(profile.voice_parameters),
+        ],
+      );
+
+      return result.rows[0];
+    } catch (error) {
+      console.error("Failed to create voice profile:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUserVoiceProfiles(userId: string): Promise<VoiceProfileRecord[]> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT * FROM voice_profiles WHERE user_id = $1 ORDER BY created_at DESC`,
+        [userId],
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error("Failed to get user voice profiles:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getActiveSessionCount(): Promise<number> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT COUNT(*) as count FROM sessions WHERE is_active = true`,
+      );
+
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error("Failed to get active session count:", error);
+      return 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUserSessionHistory(
+    userId: string,
+    limit: number = 20,
+  ): Promise<SessionRecord[]> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(
+        `SELECT s.* FROM sessions s
+         JOIN participants p ON s.id = p.session_id
+         WHERE p.user_id = $1
+         ORDER BY s.created_at DESC
+         LIMIT $2`,
+        [userId, limit],
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error("Failed to get user session history:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    // Clean up old inactive sessions (older than 24 hours)
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(
+        `DELETE FROM sessions WHERE is_active = false AND ended_at < NOW() - INTERVAL '24 hours'`,
+      );
+    } catch (error) {
+      console.error("Failed to cleanup old sessions:", error);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Cleanup is server housekeeping, so it runs on a timer rather than
+  // behind a route any signed-in user could call
+  startCleanupSchedule(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.cleanupTimer) return;
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup().catch((error) => {
+        console.error("Scheduled cleanup failed:", error);
+      });
+    }, intervalMs);
+    // Don't keep the process alive just for housekeeping
+    this.cleanupTimer.unref?.();
+  }
+
+  stopCleanupSchedule(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopCleanupSchedule();
+    await closePool();
+  }
+}
+
+export default new NeonDatabaseService();
@@ -0,0 +1,208 @@
+import type {
+  PresenceMember,
+  RealtimeMessage,
+  RealtimeServerFrame,
+} from "@shared/api";
+import SessionRegistry from "./session-registry";
+
+export interface RealtimeHubConfig {
+  historySize: number; // messages kept per channel
+}
+
+// One per socket; the hub only needs to know who it is and how to reach it
+export interface RealtimeConnection {
+  clientId: string;
+  send(frame: RealtimeServerFrame): void;
+}
+
+interface HubChannel {
+  subscribers: Set<RealtimeConnection>;
+  members: Map<string, { connection: RealtimeConnection; data: any }>;
+  history: RealtimeMessage[];
+}
+
+export class RealtimeHubError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "RealtimeHubError";
+  }
+}
+
+const SESSION_CHANNEL = /^(session|translations|webrtc):(.+)$/;
+
+// Same scoping as the Ably tokens from /api/ably/token
+export function canAccessChannel(clientId: string, channel: string): boolean {
+  if (channel === `user:${clientId}`) return true;
+  const match = SESSION_CHANNEL.exec(channel);
+  return !!match && SessionRegistry.isParticipant(match[2], clientId);
+}
+
+// In-memory pub/sub with presence and history: the server side of the
+// self-hosted realtime transport. Everything is lost on restart, which is
+// fine for sessions that only live as long as the process anyway.
+export class RealtimeHub {
+  private channels: Map<string, HubChannel> = new Map();
+
+  private config: RealtimeHubConfig = {
+    historySize: 100,
+  };
+
+  constructor(
+    config?: Partial<RealtimeHubConfig>,
+    private canAccess: (
+      clientId: string,
+      channel: string,
+    ) => boolean = canAccessChannel,
+  ) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  attach(connection: RealtimeConnection, channel: string): void {
+    this.getChannel(connection, channel).subscribers.add(connection);
+  }
+
+  detach(connection: RealtimeConnection, channel: string): void {
+    const entry = this.channels.get(channel);
+    if (!entry) return;
+
+    entry.subscribers.delete(connection);
+    this.removeMember(channel, entry, connection);
+    this.dropIfUnused(channel, entry);
+  }
+
+  publish(
+    connection: RealtimeConnection,
+    channel: string,
+    name: string,
+    data: any,
+  ): void {
+    const entry = this.getChannel(connection, channel);
+    const message: RealtimeMessage = {
+      name,
+      data,
+      clientId: connection.clientId,
+      timestamp: Date.now(),
+    };
+
+    entry.history.push(message);
+    if (entry.history.length > this.config.historySize) {
+      entry.history.shift();
+    }
+
+    this.broadcast(entry, { action: "message", channel, message });
+  }
+
+  presence(
+    connection: RealtimeConnection,
+    channel: string,
+    action: "enter" | "update" | "leave",
+    data?: any,
+  ): void {
+    const entry = this.getChannel(connection, channel);
+
+    if (action === "leave") {
+      this.removeMember(channel, entry, connection);
+      return;
+    }
+
+    const existing = entry.members.get(connection.clientId);
+    entry.members.set(connection.clientId, { connection, data });
+    this.broadcast(entry, {
+      action: "presence",
+      channel,
+      member: {
+        clientId: connection.clientId,
+        // Entering twice (e.g. after a reconnect) is an update to others
+        action: existing && action === "enter" ? "update" : action,
+        data,
+      },
+    });
+  }
+
+  getPresence(
+    connection: RealtimeConnection,
+    channel: string,
+  ): PresenceMember[] {
+    const entry = this.getChannel(connection, channel);
+    return Array.from(entry.members.entries()).map(([clientId, member]) => ({
+      clientId,
+      action: "present",
+      data: member.data,
+    }));
+  }
+
+  // Most recent first, like Ably
+  history(
+    connection: RealtimeConnection,
+    channel: string,
+    limit: number,
+  ): RealtimeMessage[] {
+    const entry = this.getChannel(connection, channel);
+    return entry.history.slice(-limit).reverse();
+  }
+
+  // Socket closed: drop its subscriptions and make it leave everywhere,
+  // so peers learn about participants who vanish without saying goodbye
+  disconnect(connection: RealtimeConnection): void {
+    for (const [channel, entry] of this.channels) {
+      entry.subscribers.delete(connection);
+      this.removeMember(channel, entry, connection);
+      this.dropIfUnused(channel, entry);
+    }
+  }
+
+  private getChannel(
+    connection: RealtimeConnection,
+    channel: string,
+  ): HubChannel {
+    if (!this.canAccess(connection.clientId, channel)) {
+      throw new RealtimeHubError(`Not allowed on channel ${channel}`, 403);
+    }
+
+    let entry = this.channels.get(channel);
+    if (!entry) {
+      entry = { subscribers: new Set(), members: new Map(), history: [] };
+      this.channels.set(channel, entry);
+    }
+    return entry;
+  }
+
+  private removeMember(
+    channel: string,
+    entry: HubChannel,
+    connection: RealtimeConnection,
+  ): void {
+    const member = entry.members.get(connection.clientId);
+    // The same user may have re-entered from a newer socket
+    if (!member || member.connection !== connection) return;
+
+    entry.members.delete(connection.clientId);
+    this.broadcast(entry, {
+      action: "presence",
+      channel,
+      member: {
+        clientId: connection.clientId,
+        action: "leave",
+        data: member.data,
+      },
+    });
+  }
+
+  private broadcast(entry: HubChannel, frame: RealtimeServerFrame): void {
+    entry.subscribers.forEach((subscriber) => subscriber.send(frame));
+  }
+
+  // History is only worth keeping while someone is around to ask for it
+  private dropIfUnused(channel: string, entry: HubChannel): void {
+    if (entry.subscribers.size === 0 && entry.members.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+}
+
+export default new RealtimeHub();
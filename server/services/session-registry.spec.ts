@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SessionRegistry, SessionRegistryError } from "./session-registry";
+
+const { random } = vi.hoisted(() => ({
+  random: { next: null as null | (() => number) },
+}));
+
+// Lets a test pick the characters codes are made of
+vi.mock("crypto", async (importOriginal) => {
+  const crypto = await importOriginal<typeof import("crypto")>();
+  return {
+    ...crypto,
+    randomInt: (max: number) =>
+      random.next ? random.next() : crypto.randomInt(max),
+  };
+});
+
+const HOUR = 60 * 60 * 1000;
+
+// HTTP status of the SessionRegistryError the operation throws
+function errorStatus(operation: () => unknown): number {
+  try {
+    operation();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SessionRegistryError);
+    return (error as SessionRegistryError).status;
+  }
+  throw new Error("Expected a SessionRegistryError");
+}
+
+describe("SessionRegistry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    random.next = null;
+    vi.useRealTimers();
+  });
+
+  describe("join codes", () => {
+    it("mints six readable characters", () => {
+      const registry = new SessionRegistry();
+
+      for (let i = 0; i < 50; i++) {
+        const { code } = registry.create(`host-${i}`);
+        expect(code).toMatch(/^[A-HJKMNP-Z2-9]{6}$/);
+      }
+    });
+
+    it("never hands out a code that's in use", () => {
+      const registry = new SessionRegistry();
+      // AAAAAA twice, then BBBBBB
+      const draws = [...Array(12).fill(0), ...Array(6).fill(1)];
+      random.next = () => draws.shift() ?? 1;
+
+      expect(registry.create("alice").code).toBe("AAAAAA");
+      expect(registry.create("bob").code).toBe("BBBBBB");
+    });
+
+    it("gives up when it can't find a free code", () => {
+      const registry = new SessionRegistry();
+      random.next = () => 0;
+      registry.create("alice");
+
+      expect(errorStatus(() => registry.create("bob"))).toBe(503);
+    });
+
+    it("reuses codes of expired sessions", () => {
+      const registry = new SessionRegistry({ sweepIntervalMs: HOUR });
+      random.next = () => 0;
+      registry.create("alice", { ttlMs: 1000 });
+      vi.advanceTimersByTime(1000);
+
+      expect(registry.create("bob")).toMatchObject({
+        code: "AAAAAA",
+        hostId: "bob",
+      });
+    });
+
+    it("resolves codes regardless of case and spacing", () => {
+      const registry = new SessionRegistry();
+      const session = registry.create("alice");
+
+      expect(registry.resolve(` ${session.code.toLowerCase()} `)).toEqual(
+        session,
+      );
+      expect(errorStatus(() => registry.resolve("ZZZZZZ"))).toBe(404);
+    });
+  });
+
+  describe("expiry", () => {
+    it("refuses expired codes", () => {
+      // Before the sweeper gets to it
+      const registry = new SessionRegistry({
+        defaultTtlMs: HOUR,
+        sweepIntervalMs: 2 * HOUR,
+      });
+      const { code, sessionId } = registry.create("alice");
+
+      vi.advanceTimersByTime(HOUR);
+
+      expect(errorStatus(() => registry.join(code, "bob"))).toBe(410);
+      expect(registry.findBySessionId(sessionId)).toBeNull();
+    });
+
+    it("caps how long a session can be asked to last", () => {
+      const registry = new SessionRegistry({ maxTtlMs: 2 * HOUR });
+
+      const session = registry.create("alice", { ttlMs: 100 * HOUR });
+
+      expect(session.expiresAt - session.createdAt).toBe(2 * HOUR);
+    });
+
+    it("sweeps expired sessions on a timer", () => {
+      const registry = new SessionRegistry({
+        defaultTtlMs: HOUR,
+        sweepIntervalMs: 60 * 1000,
+      });
+      registry.create("alice", { ttlMs: 30 * 1000 });
+      const kept = registry.create("bob");
+
+      vi.advanceTimersByTime(60 * 1000);
+
+      expect(registry.sweepExpired()).toBe(0);
+      expect(registry.resolve(kept.code).hostId).toBe("bob");
+      expect(vi.getTimerCount()).toBe(1);
+
+      // Nothing left to sweep: the timer stops
+      vi.advanceTimersByTime(HOUR);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("participants", () => {
+    it("admits guests up to the limit", () => {
+      const registry = new SessionRegistry();
+      const { code } = registry.create("alice", { maxParticipants: 2 });
+
+      expect(registry.join(code, "bob").participantCount).toBe(2);
+      // Rejoining doesn't take another seat
+      expect(registry.join(code, "bob").participantCount).toBe(2);
+      expect(errorStatus(() => registry.join(code, "carol"))).toBe(409);
+    });
+
+    it("frees a seat when a guest leaves and closes when the host does", () => {
+      const registry = new SessionRegistry();
+      const { code } = registry.create("alice");
+      registry.join(code, "bob");
+
+      registry.leave(code, "bob");
+      expect(registry.join(code, "carol").participantCount).toBe(2);
+
+      registry.leave(code, "alice");
+      expect(errorStatus(() => registry.resolve(code))).toBe(404);
+    });
+
+    it("lets only the host end a session", () => {
+      const registry = new SessionRegistry();
+      const { code } = registry.create("alice");
+      registry.join(code, "bob");
+
+      expect(errorStatus(() => registry.end(code, "bob"))).toBe(403);
+      registry.end(code, "alice");
+      expect(errorStatus(() => registry.resolve(code))).toBe(404);
+    });
+
+    it("knows who holds a seat in a live session", () => {
+      const registry = new SessionRegistry();
+      const { code, sessionId } = registry.create("alice", { ttlMs: HOUR });
+      registry.join(code, "bob");
+
+      expect(registry.isParticipant(sessionId, "alice")).toBe(true);
+      expect(registry.isParticipant(sessionId, "bob")).toBe(true);
+      expect(registry.isParticipant(sessionId, "mallory")).toBe(false);
+      expect(registry.isParticipant("session_unknown", "alice")).toBe(false);
+
+      vi.advanceTimersByTime(HOUR);
+      expect(registry.isParticipant(sessionId, "alice")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { randomInt } from "crypto";
+import type { JoinCodeSession } from "@shared/api";
+
+// Excludes look-alike characters (0/O, 1/I/L) so codes can be read aloud
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+const MAX_MINT_ATTEMPTS = 50;
+
+export interface SessionRegistryConfig {
+  defaultTtlMs: number;
+  maxTtlMs: number;
+  defaultMaxParticipants: number;
+  sweepIntervalMs: number;
+}
+
+interface RegistryEntry {
+  code: string;
+  sessionId: string;
+  hostId: string;
+  participants: Set<string>;
+  maxParticipants: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export class SessionRegistryError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "SessionRegistryError";
+  }
+}
+
+export class SessionRegistry {
+  private entries: Map<string, RegistryEntry> = new Map();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  private config: SessionRegistryConfig = {
+    defaultTtlMs: 2 * 60 * 60 * 1000, // 2 hours
+    maxTtlMs: 12 * 60 * 60 * 1000, // 12 hours
+    defaultMaxParticipants: 2,
+    sweepIntervalMs: 60 * 1000,
+  };
+
+  constructor(config?: Partial<SessionRegistryConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  create(
+    hostId: string,
+    options: { maxParticipants?: number; ttlMs?: number } = {},
+  ): JoinCodeSession {
+    this.startSweeping();
+
+    const now = Date.now();
+    const ttlMs = Math.min(
+      options.ttlMs ?? this.config.defaultTtlMs,
+      this.config.maxTtlMs,
+    );
+
+    const entry: RegistryEntry = {
+      code: this.mintCode(),
+      sessionId: `session_${now}_${Math.random().toString(36).substring(2, 8)}`,
+      hostId,
+      participants: new Set([hostId]),
+      maxParticipants:
+        options.maxParticipants ?? this.config.defaultMaxParticipants,
+      createdAt: now,
+      expiresAt: now + ttlMs,
+    };
+
+    this.entries.set(entry.code, entry);
+    return this.toSession(entry);
+  }
+
+  resolve(code: string): JoinCodeSession {
+    return this.toSession(this.getEntry(code));
+  }
+
+  join(code: string, userId: string): JoinCodeSession {
+    const entry = this.getEntry(code);
+
+    if (
+      !entry.participants.has(userId) &&
+      entry.participants.size >= entry.maxParticipants
+    ) {
+      throw new SessionRegistryError("Session is full", 409);
+    }
+
+    entry.participants.add(userId);
+    return this.toSession(entry);
+  }
+
+  leave(code: string, userId: string): void {
+    const entry = this.entries.get(this.normalizeCode(code));
+    if (!entry) return;
+
+    entry.participants.delete(userId);
+    if (userId === entry.hostId) {
+      this.entries.delete(entry.code);
+    }
+  }
+
+  end(code: string, userId: string): void {
+    const entry = this.getEntry(code);
+
+    if (entry.hostId !== userId) {
+      throw new SessionRegistryError("Only the host can end a session", 403);
+    }
+
+    this.entries.delete(entry.code);
+  }
+
+  findBySessionId(sessionId: string): JoinCodeSession | null {
+    for (const entry of this.entries.values()) {
+      if (entry.sessionId === sessionId && entry.expiresAt > Date.now()) {
+        return this.toSession(entry);
+      }
+    }
+    return null;
+  }
+
+  // Whether the user holds a seat in the (unexpired) session
+  isParticipant(sessionId: string, userId: string): boolean {
+    for (const entry of this.entries.values()) {
+      if (entry.sessionId === sessionId && entry.expiresAt > Date.now()) {
+        return entry.participants.has(userId);
+      }
+    }
+    return false;
+  }
+
+  sweepExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [code, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(code);
+        removed++;
+      }
+    }
+
+    if (this.entries.size === 0) {
+      this.stopSweeping();
+    }
+
+    return removed;
+  }
+
+  private getEntry(code: string): RegistryEntry {
+    const entry = this.entries.get(this.normalizeCode(code));
+
+    if (!entry) {
+      throw new SessionRegistryError("Unknown session code", 404);
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(entry.code);
+      throw new SessionRegistryError("Session code has expired", 410);
+    }
+
+    return entry;
+  }
+
+  private mintCode(): string {
+    for (let attempt = 0; attempt < MAX_MINT_ATTEMPTS; attempt++) {
+      let code = "";
+      for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+      }
+
+      const existing = this.entries.get(code);
+      if (!existing || existing.expiresAt <= Date.now()) {
+        return code;
+      }
+    }
+
+    throw new SessionRegistryError("Unable to allocate a session code", 503);
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private toSession(entry: RegistryEntry): JoinCodeSession {
+    return {
+      code: entry.code,
+      sessionId: entry.sessionId,
+      hostId: entry.hostId,
+      participantCount: entry.participants.size,
+      maxParticipants: entry.maxParticipants,
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt,
+    };
+  }
+
+  private startSweeping(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(
+      () => this.sweepExpired(),
+      this.config.sweepIntervalMs,
+    );
+    // Don't keep the process alive just for housekeeping
+    this.sweepTimer.unref?.();
+  }
+
+  private stopSweeping(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+export default new SessionRegistry();
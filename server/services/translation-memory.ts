@@ -0,0 +1,270 @@
+import { Pool } from "pg";
+import { getPool } from "../db";
+import type {
+  TranslationMemoryKey,
+  TranslationMemoryMatch,
+  TranslationMemoryMetrics,
+  TranslationMemoryStoreRequest,
+} from "@shared/api";
+
+export interface TranslationMemoryConfig {
+  lruSize: number;
+  minSimilarity: number; // 0..1 trigram similarity
+  minFuzzyLength: number; // short phrases only match exactly
+}
+
+interface LookupOptions {
+  fuzzy?: boolean;
+  minSimilarity?: number;
+}
+
+// Map iteration order is insertion order, so re-inserting marks recency
+class LRUCache<V> {
+  private entries: Map<string, V> = new Map();
+
+  constructor(private maxSize: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export function normalizeSourceText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function normalizeLanguage(language: string): string {
+  return language.trim().toLowerCase();
+}
+
+export class TranslationMemoryService {
+  private config: TranslationMemoryConfig = {
+    lruSize: 1000,
+    minSimilarity: 0.9,
+    minFuzzyLength: 10,
+  };
+
+  private cache: LRUCache<TranslationMemoryMatch>;
+  private counters = {
+    lookups: 0,
+    lruHits: 0,
+    exactHits: 0,
+    fuzzyHits: 0,
+    misses: 0,
+    stored: 0,
+  };
+
+  constructor(config?: Partial<TranslationMemoryConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+    this.cache = new LRUCache(this.config.lruSize);
+  }
+
+  private get pool(): Pool {
+    return getPool();
+  }
+
+  private columns(key: TranslationMemoryKey) {
+    return {
+      sourceText: normalizeSourceText(key.text),
+      sourceLanguage: normalizeLanguage(key.sourceLanguage),
+      targetLanguage: normalizeLanguage(key.targetLanguage),
+      formality: key.formality || "default",
+      glossaryVersion: key.glossaryVersion || "",
+    };
+  }
+
+  private cacheKey(key: TranslationMemoryKey): string {
+    const c = this.columns(key);
+    return [
+      c.sourceLanguage,
+      c.targetLanguage,
+      c.formality,
+      c.glossaryVersion,
+      c.sourceText,
+    ].join("\u0000");
+  }
+
+  async lookup(
+    key: TranslationMemoryKey,
+    options: LookupOptions = {},
+  ): Promise<TranslationMemoryMatch | null> {
+    this.counters.lookups++;
+
+    const cacheKey = this.cacheKey(key);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      this.counters.lruHits++;
+      return cached;
+    }
+
+    const c = this.columns(key);
+    const client = await this.pool.connect();
+
+    try {
+      const exact = await client.query(
+        `UPDATE translation_memory
+         SET hit_count = hit_count + 1, last_used_at = CURRENT_TIMESTAMP
+         WHERE source_language = $1 AND target_language = $2 AND formality = $3
+           AND glossary_version = $4 AND source_text = $5
+         RETURNING source_text, translated_text, provider, enhanced`,
+        [
+          c.sourceLanguage,
+          c.targetLanguage,
+          c.formality,
+          c.glossaryVersion,
+          c.sourceText,
+        ],
+      );
+
+      if (exact.rows[0]) {
+        const match = this.toMatch(exact.rows[0], "exact", 1);
+        this.cache.set(cacheKey, match);
+        this.counters.exactHits++;
+        return match;
+      }
+
+      if (!options.fuzzy || c.sourceText.length < this.config.minFuzzyLength) {
+        this.counters.misses++;
+        return null;
+      }
+
+      const minSimilarity = options.minSimilarity ?? this.config.minSimilarity;
+      const fuzzy = await client.query(
+        `SELECT id, source_text, translated_text, provider, enhanced,
+                similarity(source_text, $5) AS similarity
+         FROM translation_memory
+         WHERE source_language = $1 AND target_language = $2 AND formality = $3
+           AND glossary_version = $4 AND source_text % $5
+         ORDER BY similarity DESC
+         LIMIT 1`,
+        [
+          c.sourceLanguage,
+          c.targetLanguage,
+          c.formality,
+          c.glossaryVersion,
+          c.sourceText,
+        ],
+      );
+
+      const row = fuzzy.rows[0];
+      if (!row || Number(row.similarity) < minSimilarity) {
+        this.counters.misses++;
+        return null;
+      }
+
+      await client.query(
+        `UPDATE translation_memory
+         SET hit_count = hit_count + 1, last_used_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [row.id],
+      );
+
+      // Not cached: a later exact store for this text should win
+      this.counters.fuzzyHits++;
+      return this.toMatch(row, "fuzzy", Number(row.similarity));
+    } catch (error) {
+      console.error("Translation memory lookup failed:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async store(entry: TranslationMemoryStoreRequest): Promise<void> {
+    const c = this.columns(entry);
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(
+        `INSERT INTO translation_memory
+           (source_text, source_language, target_language, formality,
+            glossary_version, translated_text, provider, enhanced)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (source_language, target_language, formality, glossary_version, source_text)
+         DO UPDATE SET translated_text = EXCLUDED.translated_text,
+                       provider = EXCLUDED.provider,
+                       enhanced = EXCLUDED.enhanced,
+                       last_used_at = CURRENT_TIMESTAMP`,
+        [
+          c.sourceText,
+          c.sourceLanguage,
+          c.targetLanguage,
+          c.formality,
+          c.glossaryVersion,
+          entry.translatedText,
+          entry.provider,
+          entry.enhanced ?? false,
+        ],
+      );
+
+      this.cache.set(this.cacheKey(entry), {
+        match: "exact",
+        similarity: 1,
+        sourceText: c.sourceText,
+        translatedText: entry.translatedText,
+        provider: entry.provider,
+        enhanced: entry.enhanced ?? false,
+      });
+      this.counters.stored++;
+    } catch (error) {
+      console.error("Failed to store translation memory:", error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  getMetrics(): TranslationMemoryMetrics {
+    const { lookups, lruHits, exactHits, fuzzyHits } = this.counters;
+    return {
+      ...this.counters,
+      hitRate: lookups > 0 ? (lruHits + exactHits + fuzzyHits) / lookups : 0,
+      lruSize: this.cache.size,
+    };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private toMatch(
+    row: any,
+    match: TranslationMemoryMatch["match"],
+    similarity: number,
+  ): TranslationMemoryMatch {
+    return {
+      match,
+      similarity,
+      sourceText: row.source_text,
+      translatedText: row.translated_text,
+      provider: row.provider,
+      enhanced: Boolean(row.enhanced),
+    };
+  }
+}
+
+export default new TranslationMemoryService();
@@ -0,0 +1,206 @@
+/**
+ * Shared code between client and server
+ * Request/response shapes for the Express API under /api
+ */
+
+/**
+ * Response type for /api/sessions
+ */
+export interface JoinCodeSession {
+  code: string;
+  sessionId: string;
+  hostId: string;
+  participantCount: number;
+  maxParticipants: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CreateJoinCodeRequest {
+  maxParticipants?: number;
+  ttlMinutes?: number;
+}
+
+/**
+ * Response type for /api/stt/transcribe
+ */
+export interface STTWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface STTSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+  words?: STTWord[];
+}
+
+export interface STTResult {
+  text: string;
+  confidence: number;
+  language: string;
+  duration: number;
+  segments?: STTSegment[];
+}
+
+/**
+ * Request/response types for /api/translation-memory
+ */
+export type TranslationFormality = "default" | "more" | "less";
+
+export interface TranslationMemoryKey {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  formality?: TranslationFormality;
+  glossaryVersion?: string;
+}
+
+export interface TranslationMemoryLookupRequest extends TranslationMemoryKey {
+  fuzzy?: boolean;
+  minSimilarity?: number;
+}
+
+export interface TranslationMemoryStoreRequest extends TranslationMemoryKey {
+  translatedText: string;
+  provider: string;
+  enhanced?: boolean;
+}
+
+export interface TranslationMemoryMatch {
+  // A fuzzy match is a translation of a *different* sentence; show it as a
+  // suggestion, never as the translation of this one
+  match: "exact" | "fuzzy";
+  similarity: number;
+  sourceText: string;
+  translatedText: string;
+  provider: string;
+  enhanced: boolean;
+}
+
+export interface TranslationMemoryMetrics {
+  lookups: number;
+  lruHits: number;
+  exactHits: number;
+  fuzzyHits: number;
+  misses: number;
+  hitRate: number;
+  lruSize: number;
+  stored: number;
+}
+
+/**
+ * Request/response types for /api/deepl/glossaries
+ */
+export type GlossaryEntriesFormat = "csv" | "tsv";
+
+export interface CreateGlossaryRequest {
+  name: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  entries: string;
+  format: GlossaryEntriesFormat;
+}
+
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+}
+
+export interface GlossaryLanguagePair {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * Wire protocol for the self-hosted realtime transport at /api/realtime.
+ * Every client frame carries an id that the server answers with a
+ * "reply" or "error" frame.
+ */
+export interface RealtimeMessage {
+  name: string;
+  data: any;
+  clientId?: string;
+  timestamp?: number;
+}
+
+export type PresenceAction = "present" | "enter" | "update" | "leave";
+
+export interface PresenceMember {
+  clientId: string;
+  action: PresenceAction;
+  data: any;
+}
+
+export type RealtimeRequest =
+  | { action: "attach"; channel: string }
+  | { action: "detach"; channel: string }
+  | { action: "publish"; channel: string; name: string; data: any }
+  | {
+      action: "presence";
+      channel: string;
+      presence: "enter" | "update" | "leave";
+      data?: any;
+    }
+  | { action: "presence.get"; channel: string }
+  | { action: "history"; channel: string; limit: number };
+
+export type RealtimeClientFrame = RealtimeRequest & { id: number };
+
+export type RealtimeServerFrame =
+  | { action: "connected"; clientId: string }
+  | { action: "reply"; id: number; result?: any }
+  | { action: "error"; id?: number; status: number; error: string }
+  | { action: "message"; channel: string; message: RealtimeMessage }
+  | { action: "presence"; channel: string; member: PresenceMember };
+
+/**
+ * ICE servers for RTCPeerConnection from /api/webrtc/ice-servers. TURN
+ * credentials are only valid until expiresAt.
+ */
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServersResponse {
+  iceServers: IceServer[];
+  expiresAt: number; // ms since epoch
+}
+
+/**
+ * Request/response types for /api/analytics/performance. Each report
+ * covers one utterance; correlationId ties its stages together.
+ */
+export type LatencyStage =
+  "record" | "stt" | "translate" | "enhance" | "tts_first_byte" | "playback";
+
+export interface StageTiming {
+  stage: LatencyStage;
+  provider?: string;
+  durationMs: number;
+}
+
+export interface LatencyReport {
+  correlationId: string;
+  sessionId?: string;
+  mode?: "just-me" | "talk-together";
+  timings: StageTiming[];
+}
+
+export interface LatencyPercentiles {
+  stage: LatencyStage;
+  provider: string; // "" for stages without one, like record
+  count: number;
+  p50: number; // ms
+  p95: number; // ms
+}
+
+export interface LatencyBreakdownResponse {
+  since: string; // ISO timestamp the window starts at
+  stages: LatencyPercentiles[];
+}
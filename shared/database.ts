@@ -0,0 +1,88 @@
+/**
+ * Shared code between client and server
+ * Row shapes for the Neon Postgres tables served under /api/neon
+ */
+
+export interface SessionRecord {
+  id: string;
+  host_id: string;
+  created_at: Date;
+  ended_at?: Date;
+  is_active: boolean;
+  participant_count: number;
+  total_translations: number;
+  duration_seconds?: number;
+}
+
+export interface ParticipantRecord {
+  id: string;
+  session_id: string;
+  user_id: string;
+  username: string;
+  is_host: boolean;
+  joined_at: Date;
+  left_at?: Date;
+  status: "connected" | "disconnected";
+}
+
+export interface TranslationRecord {
+  id: string;
+  session_id: string;
+  sender_id: string;
+  original_text: string;
+  translated_text: string;
+  source_language: string;
+  target_language: string;
+  created_at: Date;
+  confidence_score?: number;
+  audio_url?: string;
+  enhanced_by_ai: boolean;
+  // Playback was cut off by the listener talking over it
+  partially_heard?: boolean;
+}
+
+export interface UserSettingsRecord {
+  user_id: string;
+  preferred_source_language: string;
+  preferred_target_language: string;
+  voice_settings: {
+    volume: number;
+    speed: number;
+    voice_id?: string;
+  };
+  notification_settings: {
+    translation_complete: boolean;
+    session_joined: boolean;
+    session_ended: boolean;
+  };
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UserGlossaryRecord {
+  glossary_id: string;
+  user_id: string;
+  name: string;
+  source_language: string;
+  target_language: string;
+  entry_count: number;
+  created_at: Date;
+}
+
+export interface UserVoiceRecord {
+  voice_id: string;
+  user_id: string;
+  created_at: Date;
+}
+
+export interface VoiceProfileRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  language: string;
+  is_custom: boolean;
+  audio_sample_url?: string;
+  voice_parameters: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
@@ -29,6 +29,7 @@ export default defineConfig({
         "child_process",
         "express",
         "cors",
+        "ws",
       ],
       output: {
         format: "es",
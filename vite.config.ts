@@ -2,7 +2,8 @@ import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import PinyVite from "@pinegrow/piny-vite";
 import path from "path";
-import { createServer } from "./server";
+import type { Server } from "http";
+import { attachRealtime, createServer } from "./server";
 
 export default defineConfig(({ mode }) => ({
   server: {
@@ -28,6 +29,9 @@ function expressPlugin(): Plugin {
     configureServer(server) {
       const app = createServer();
       server.middlewares.use(app);
+      if (server.httpServer) {
+        attachRealtime(app, server.httpServer as Server);
+      }
     },
   };
 }